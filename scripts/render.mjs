@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+/**
+ * Headless renderer — render manifest(s) → MP4 / WebM / GIF with native ffmpeg, or a folder of PNGs.
+ * -------------------------------------------------
+ *   npm run render -- manifest.json out.mp4
+ *   npm run render -- manifests/ out/            (every *.json in the folder → out/<name>.<ext>)
+ *
+ * Serves the app with Vite, opens it in headless Chrome at `/?headless` and pulls frames from
+ * window.__fts — the same offscreen FakeTextPreview + html2canvas stage the in-browser export uses —
+ * so frames are identical to the in-browser "Render (exact)". Only the encoder differs (native ffmpeg, piped PNGs). Frames whose
+ * timeline state didn't change are not rasterised again; the previous PNG is piped in their place.
+ *
+ * The format, size and fps come from the manifest (`output.format`, `canvas`); the output extension follows the format.
+ * A PNG-sequence manifest writes <out>/frame_00000.png … (+ audio.wav) instead of a video file.
+ * When the manifest's pacing splits the story into parts, each part is written as <out>-part1, <out>-part2, …
+ *
+ * Options:  --chrome <path>   Chrome/Chromium binary (or CHROME_PATH)
+ *           --ffmpeg <path>   ffmpeg binary (or FFMPEG_PATH, default "ffmpeg")
+ */
+import { spawn } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+import puppeteer from 'puppeteer-core';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const CHROME_CANDIDATES = ['/usr/bin/google-chrome', '/usr/bin/google-chrome-stable', '/usr/bin/chromium', '/usr/bin/chromium-browser', '/snap/bin/chromium'];
+
+function parseArgs(argv) {
+  const opts = { chrome: process.env.CHROME_PATH, ffmpeg: process.env.FFMPEG_PATH || 'ffmpeg', positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--chrome') opts.chrome = argv[++i];
+    else if (a === '--ffmpeg') opts.ffmpeg = argv[++i];
+    else if (a === '-h' || a === '--help') opts.help = true;
+    else opts.positional.push(a);
+  }
+  return opts;
+}
+
+/** [input, output base] pairs: a single file, or every .json in a folder. The extension is added once the format is known. */
+function resolveJobs(input, output) {
+  if (statSync(input).isDirectory()) {
+    const outDir = output || input;
+    mkdirSync(outDir, { recursive: true });
+    return readdirSync(input).filter((f) => f.toLowerCase().endsWith('.json')).sort()
+      .map((f) => [path.join(input, f), path.join(outDir, f.replace(/\.json$/i, ''))]);
+  }
+  return [[input, (output || input).replace(/\.(json|mp4|webm|gif|zip)$/i, '')]];
+}
+
+/** Sink for PNG frames: native ffmpeg reading a PNG pipe, or numbered files in a folder */
+function startEncoder(ffmpegBin, info, outFile, audioFile) {
+  if (!info.videoArgs) {
+    mkdirSync(outFile, { recursive: true });
+    let n = 0;
+    const write = async (buf) => writeFileSync(path.join(outFile, `frame_${String(n++).padStart(5, '0')}.png`), buf);
+    return { write, end: async () => { if (audioFile) writeFileSync(path.join(outFile, 'audio.wav'), readFileSync(audioFile)); } };
+  }
+  const audioArgs = audioFile ? ['-i', audioFile, '-map', '0:v', '-map', '1:a', ...info.audioArgs] : [];
+  const args = ['-y', '-loglevel', 'error', '-f', 'image2pipe', '-framerate', String(info.fps), '-c:v', 'png', '-i', '-', ...audioArgs, ...info.videoArgs, outFile];
+  const proc = spawn(ffmpegBin, args, { stdio: ['pipe', 'inherit', 'inherit'] });
+  const done = new Promise((resolve, reject) => {
+    proc.on('error', (e) => reject(new Error(`Could not start ffmpeg (${ffmpegBin}): ${e.message}`)));
+    proc.on('close', (code) => (code === 0 ? resolve() : reject(new Error(`ffmpeg exited with code ${code}`))));
+  });
+  let failed = null; // why ffmpeg stopped, once it has failed
+  done.catch((e) => { failed = e; });
+  // a write after ffmpeg has gone fails with EPIPE: report why ffmpeg stopped instead (and don't crash on the stream error)
+  proc.stdin.on('error', () => {});
+  const write = (buf) => new Promise((resolve, reject) => {
+    if (failed) return reject(failed);
+    proc.stdin.write(buf, (err) => (err ? done.then(() => reject(err), reject) : resolve()));
+  });
+  return { write, end: () => { proc.stdin.end(); return done; } };
+}
+
+async function renderOne(page, ffmpegBin, manifestPath, outBase) {
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  let info = await page.evaluate((m) => window.__fts.load(m, 0), manifest);
+  try {
+    for (let part = 0; part < info.parts; part++) {
+      if (part) info = await page.evaluate(([m, p]) => window.__fts.load(m, p), [manifest, part]);
+      await renderPart(page, ffmpegBin, info, info.parts > 1 ? `${outBase}-part${part + 1}` : outBase);
+    }
+  } finally {
+    await page.evaluate(() => window.__fts.dispose());
+  }
+}
+
+async function renderPart(page, ffmpegBin, info, outBase) {
+  const outFile = info.videoArgs ? `${outBase}.${info.ext}` : outBase;
+  console.error(`  → ${outFile} (${info.format}, ${info.width}×${info.height} @ ${info.fps} fps)`);
+  // Same offline mix the browser export muxes (message sounds + narration + music); GIF carries none
+  const wav = info.audioArgs || !info.videoArgs ? await page.evaluate(() => window.__fts.audio()) : null;
+  const audioFile = wav ? path.join(os.tmpdir(), `fts-${process.pid}-${Date.now()}.wav`) : null;
+  if (audioFile) writeFileSync(audioFile, Buffer.from(wav, 'base64'));
+  const enc = startEncoder(ffmpegBin, info, outFile, audioFile);
+  const t0 = Date.now();
+  let last = null, unique = 0;
+  try {
+    for (let i = 0; i < info.frameCount; i++) {
+      // '' = unchanged since the previous frame: re-send the last PNG without rasterising again
+      const b64 = await page.evaluate((n) => window.__fts.frame(n), i);
+      if (b64 || !last) { last = Buffer.from(b64, 'base64'); unique++; }
+      await enc.write(last);
+      if (i % 30 === 0 || i === info.frameCount - 1) {
+        const elapsed = Math.max(0.001, (Date.now() - t0) / 1000);
+        const eta = (elapsed / (i + 1)) * (info.frameCount - i - 1);
+        process.stderr.write(`\r  ${path.basename(outFile)}: frame ${i + 1}/${info.frameCount}, ${unique} unique (${((i + 1) / elapsed).toFixed(1)} fps, ETA ${Math.ceil(eta)}s)   `);
+      }
+    }
+  } finally {
+    await enc.end().finally(() => { if (audioFile) rmSync(audioFile, { force: true }); });
+    process.stderr.write('\n');
+  }
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const [input, output] = opts.positional;
+  if (opts.help || !input) {
+    console.error('Usage: npm run render -- <manifest.json|folder> [out|out-folder] [--chrome <path>] [--ffmpeg <path>]');
+    process.exit(opts.help ? 0 : 1);
+  }
+  if (!existsSync(input)) throw new Error(`Not found: ${input}`);
+  const jobs = resolveJobs(input, output);
+  if (!jobs.length) throw new Error(`No .json manifests in ${input}`);
+  const executablePath = opts.chrome || CHROME_CANDIDATES.find((p) => existsSync(p));
+  if (!executablePath) throw new Error('No Chrome/Chromium found. Pass --chrome <path> or set CHROME_PATH.');
+
+  const server = await createServer({ root: ROOT, logLevel: 'error', server: { strictPort: false } });
+  await server.listen();
+  const url = server.resolvedUrls?.local?.[0];
+  const browser = await puppeteer.launch({ executablePath, headless: true, args: ['--no-sandbox', '--disable-dev-shm-usage', '--font-render-hinting=none'] });
+  let failed = 0;
+  try {
+    const page = await browser.newPage();
+    page.on('pageerror', (e) => console.error('[page]', e.message));
+    await page.goto(`${url}?headless`, { waitUntil: 'networkidle0' });
+    await page.waitForFunction(() => !!window.__fts, { timeout: 30000 });
+    for (const [src, dst] of jobs) {
+      console.error(`Rendering ${src}`);
+      try { await renderOne(page, opts.ffmpeg, src, dst); }
+      catch (e) { failed++; console.error(`  failed: ${e?.message || e}`); }
+    }
+  } finally {
+    await browser.close();
+    await server.close();
+  }
+  console.error(`Done: ${jobs.length - failed}/${jobs.length} rendered.`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => { console.error(e?.message || e); process.exit(1); });
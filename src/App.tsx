@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { flushSync } from "react-dom";
 import { createRoot } from "react-dom/client";
 
 /**
@@ -9,7 +10,7 @@ import { createRoot } from "react-dom/client";
  * 2) Added a single "Overall HUD Scale %" (keeps size & position ratios) so the entire iMessage UI can be made larger/smaller uniformly.
  * 3) Removed traffic-light dots; menu is fully scrollable; messages list is its own scroll area.
  * 4) Numbered wizard tabs: 1. Script → 2. Advanced → 3. Background → 4. Export. You proceed through tabs, then export.
- * 5) Export tab guarantees preview/export parity by a single Render Manifest (download in-canvas). MP4 is produced from this manifest in deployment.
+ * 5) Export tab guarantees preview/export parity by a single Render Manifest (download in-canvas). MP4 is produced from this manifest in-browser or headless via `npm run render`.
  * 6) Transport scrubber enlarged; kept outside of the HUD; white icons.
  * 7) No bubble tails/flicks. Time separator is the first row inside chat. FaceTime icon is blue stroke-only, same thickness as back chevron.
  */
@@ -23,7 +24,15 @@ const TEXT = "#EDEDED";
 const SUBTEXT = "#9CA3AF";
 const FONT = "-apple-system, BlinkMacSystemFont, 'SF Pro Text', 'Inter', system-ui, sans-serif";
 
-const CANVAS = { w: 1080, h: 1920 }; // design coord-space
+const CANVAS = { w: 1080, h: 1920 }; // design coord-space (9:16); other canvases scale the HUD by their short side
+export type CanvasSize = { w: number; h: number };
+const CANVAS_PRESETS = [
+  { key: '9:16', label: '9:16 · Story / Reel', w: 1080, h: 1920 },
+  { key: '1:1', label: '1:1 · Square', w: 1080, h: 1080 },
+  { key: '4:5', label: '4:5 · Portrait post', w: 1080, h: 1350 },
+  { key: '16:9', label: '16:9 · Landscape', w: 1920, h: 1080 },
+];
+const FPS_OPTIONS = [24, 30, 60];
 
 // ------------------------ helpers ------------------------
 const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
@@ -32,9 +41,22 @@ const calcPctOffset = (ratio: number, px: number) => `calc(${pct(ratio)} - ${px}
 const rid = () => Math.random().toString(36).slice(2, 10);
 function swap<T>(arr: T[], a: number, b: number): T[] { const c = arr.slice(); const t = c[a]; c[a] = c[b]; c[b] = t; return c; }
 const initials = (name: string) => (name.trim().split(/\s+/)[0]?.[0] ?? "").toUpperCase();
+/** Black or white, whichever reads better on a #RRGGBB colour */
+const readableOn = (hex: string) => { const h = hex.replace('#', ''); const n = parseInt(h.length === 3 ? h.replace(/./g, '$&$&') : h.padEnd(6, '0').slice(0, 6), 16) || 0; return (0.299 * (n >> 16) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255)) > 150 ? '#111111' : '#FFFFFF'; };
+const easeOutCubic = (x: number) => 1 - Math.pow(1 - clamp01(x), 3);
+const easeInOut = (x: number) => { const v = clamp01(x); return v < 0.5 ? 2 * v * v : 1 - Math.pow(-2 * v + 2, 2) / 2; };
+const easeOutBack = (x: number) => { const v = clamp01(x) - 1; return 1 + 2.70158 * v * v * v + 1.70158 * v * v; };
 const fmt = (ms: number) => { const s = Math.max(0, Math.floor(ms / 1000)); const m = Math.floor(s / 60).toString(); const ss = (s % 60).toString().padStart(2, "0"); return `${m}:${ss}`; };
 //
 
+/** Natural pixel size of an image data URL (photo attachments keep their aspect ratio) */
+function imageSize(src: string): Promise<{ w: number; h: number }> {
+  return new Promise((resolve, reject) => { const img = new Image(); img.onload = () => resolve({ w: img.naturalWidth, h: img.naturalHeight }); img.onerror = () => reject(new Error("Image decode failed")); img.src = src; });
+}
+const hostOf = (url: string) => { try { return new URL(url).hostname.replace(/^www\./, ''); } catch { return url; } };
+// Stable pseudo-random in [0,1) per (seed, i) so generated art (voice waveforms) is identical in preview and export
+const hash01 = (seed: string, i: number) => { let h = 2166136261 ^ i; for (let k = 0; k < seed.length; k++) h = Math.imul(h ^ seed.charCodeAt(k), 16777619); h = Math.imul(h ^ (h >>> 15), 2246822507); return ((h ^ (h >>> 13)) >>> 0) / 4294967296; };
+
 /** Safe file → dataURL (avoids object-URL policy pitfalls) */
 function fileToDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -67,12 +89,22 @@ export type UISettings = {
   tsFontPx: number;        // px (pre-scale)
   // global
   hudScalePct: number;     // 75..140 (%). Uniformly scales HUD size & positions while keeping ratios.
-  uiStyle?: 'IMESSAGE' | 'WHATSAPP';
-  themeMode?: 'DARK' | 'LIGHT';
+  uiStyle?: SkinId;
+  themeMode?: ThemeMode;
   // header text/layout
   headerNameFontPx: number; // px (pre-scale)
   headerGapPx: number;      // px gap between avatar and text/icons
   headerPadHPx: number;     // horizontal padding inside header
+  // motion
+  enterAnim?: EnterAnim;    // entrance for messages without their own
+  pushInPct: number;        // slow zoom over the whole story, 0 = off
+  // phone chrome
+  statusBar: boolean;       // clock / signal / battery row above the header
+  composer: boolean;        // message field under the chat
+  keyboard: boolean;        // on-screen keyboard under the composer
+  composerTyping: boolean;  // type each sent text into the composer before it's sent
+  clock: string;            // status bar time
+  batteryPct: number;       // 0..100
 };
 
 const DEFAULT_SETTINGS: UISettings = {
@@ -95,9 +127,908 @@ const DEFAULT_SETTINGS: UISettings = {
   headerNameFontPx: 20,
   headerGapPx: 12,
   headerPadHPx: 14,
+  enterAnim: 'none',
+  pushInPct: 0,
+  statusBar: false,
+  composer: false,
+  keyboard: false,
+  composerTyping: true,
+  clock: '9:41',
+  batteryPct: 80,
+};
+
+export type Tapback = 'like' | 'love' | 'laugh' | 'emphasize' | 'question';
+export type Message = {
+  id: string;
+  speaker: "SENDER" | "RECEIVER";
+  text: string;
+  delay_s?: number;          // seconds until the next message (default 3)
+  typing_s?: number;         // RECEIVER only: "…" bubble shown this long before the text (default 0)
+  read_receipt?: string;     // "Delivered", "Read 7:43 PM", …
+  receipt_delay_s?: number;  // seconds after the bubble appears (default 0)
+  tapback?: Tapback | string | null;
+  tapback_delay_s?: number;  // seconds after the bubble appears (default 0)
+  participant_id?: string;   // group chats: which participant sent a RECEIVER message (default: first)
+  kind?: MessageKind;        // default 'text'; text doubles as photo caption / sticker emoji
+  media_url?: string;        // photo or sticker image (data URL)
+  media_w?: number;
+  media_h?: number;
+  voice_s?: number;          // voice note length (seconds)
+  link_url?: string;
+  link_title?: string;
+  link_desc?: string;
+  link_image?: string;       // link preview image (data URL)
+  enter?: EnterAnim;         // entrance animation (default: settings.enterAnim)
+  camera?: CameraMove;       // HUD move when this bubble appears
+  edited_text?: string;      // the text is changed to this (with an "Edited" label)…
+  edit_delay_s?: number;     // …this many seconds after the bubble appears (default 2)
+  unsent?: boolean;          // the bubble collapses to "You unsent a message" / "This message was deleted"…
+  unsend_delay_s?: number;   // …this many seconds after it appears (default 2)
+  failed?: boolean;          // SENDER only: red "Not Delivered" marker…
+  fail_delay_s?: number;     // …this many seconds after the bubble appears (default 1)
+};
+/** What a bubble shows at a moment of the timeline: its latest edit, unsend or failed send (an unsend wins) */
+export type MessageState = 'edited' | 'unsent' | 'failed' | null;
+const EVENT_DEFAULT_S = { edit: 2, unsend: 2, fail: 1 };
+export type MessageKind = 'text' | 'photo' | 'voice' | 'link' | 'sticker';
+const MESSAGE_KINDS: MessageKind[] = ['text', 'photo', 'voice', 'link', 'sticker'];
+
+// Group chats: everyone other than "me" (SENDER) is a participant. A disabled group is a plain two-party chat.
+export type Participant = { id: string; name: string; avatarUrl?: string; color?: string };
+export type ChatInfo = { group: boolean; groupName: string; participants: Participant[] };
+const DEFAULT_CHAT: ChatInfo = { group: false, groupName: '', participants: [] };
+// WhatsApp's group sender-name colours, assigned round-robin
+const NAME_COLORS = ['#E542A3', '#1F7AEC', '#FC8A3B', '#35CD96', '#A62C71', '#6BCBEF', '#FA6533', '#02A698'];
+const participantColor = (p: Participant, i: number) => p.color || NAME_COLORS[i % NAME_COLORS.length];
+function participantOf(chat: ChatInfo, m: Message): { p: Participant; index: number } | null {
+  if (!chat.group || !chat.participants.length || m.speaker !== 'RECEIVER') return null;
+  const index = Math.max(0, chat.participants.findIndex((p) => p.id === m.participant_id));
+  return { p: chat.participants[index], index };
+}
+const groupTitle = (chat: ChatInfo) => chat.groupName.trim() || chat.participants.map((p) => p.name).join(', ') || 'Group';
+/** start → (typing) → show. Typing phase is [start, show); tapbacks/receipts are offsets from show. */
+export type ScheduleEntry = {
+  id: string; start: number; typingMs: number; show: number; tapbackAt: number; receiptAt: number; editAt: number; unsendAt: number; failAt: number;
+  endAt: number; // when this message is over: its delay has run and its reaction/receipt/edit/unsend/failure has landed
+};
+
+/** Pure timeline: each message's phase starts delay_s seconds (default 3s) after the previous bubble showed, compressed by timeScale when >1. */
+function buildSchedule(messages: Message[], timeScale = 1): { entries: ScheduleEntry[]; endMs: number } {
+  const scale = timeScale > 0 ? timeScale : 1;
+  const toMs = (s: number | undefined, dflt: number) => Math.round(((s ?? dflt) * 1000) / scale);
+  let acc = 0;
+  const entries = messages.map((m) => {
+    const start = acc;
+    const typingMs = m.speaker === 'RECEIVER' ? toMs(m.typing_s, 0) : 0;
+    const show = start + typingMs; acc = show + toMs(m.delay_s, 3);
+    const tapbackAt = show + toMs(m.tapback_delay_s, 0);
+    const receiptAt = show + toMs(m.receipt_delay_s, 0);
+    const editAt = show + toMs(m.edit_delay_s, EVENT_DEFAULT_S.edit);
+    const unsendAt = show + toMs(m.unsend_delay_s, EVENT_DEFAULT_S.unsend);
+    const failAt = show + toMs(m.fail_delay_s, EVENT_DEFAULT_S.fail);
+    const endAt = Math.max(acc, m.tapback ? tapbackAt : 0, m.read_receipt ? receiptAt : 0, m.edited_text != null ? editAt : 0, m.unsent ? unsendAt : 0, m.failed ? failAt : 0);
+    return { id: m.id, start, typingMs, show, tapbackAt, receiptAt, editAt, unsendAt, failAt, endAt };
+  });
+  return { entries, endMs: entries.reduce((n, e) => Math.max(n, e.endAt), 0) };
+}
+
+const TAPBACKS: Tapback[] = ['like', 'love', 'laugh', 'emphasize', 'question'];
+const messageState = (m: Message, e: ScheduleEntry, ms: number): MessageState =>
+  m.unsent && ms >= e.unsendAt - 5 ? 'unsent' : m.failed && m.speaker === 'SENDER' && ms >= e.failAt - 5 ? 'failed' : m.edited_text != null && ms >= e.editAt - 5 ? 'edited' : null;
+type ReceiptStatus = 'sent' | 'delivered' | 'read';
+const receiptStatus = (s?: string): ReceiptStatus => (!s ? 'sent' : /read|seen/i.test(s) ? 'read' : /deliver/i.test(s) ? 'delivered' : 'sent');
+const STATUS_RANK: Record<ReceiptStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+// ------------------------ motion ------------------------
+// Entrances and camera moves are pure functions of the ms since a bubble showed, so preview, scrubbing and export agree.
+export type EnterAnim = 'none' | 'pop' | 'slide' | 'fade' | 'spring';
+export type CameraMove = 'zoom' | 'shake';
+type MotionStyle = { opacity: number; transform: string };
+const ENTER_ANIMS: Record<EnterAnim, { label: string; ms: number; at: (p: number) => MotionStyle }> = {
+  none: { label: 'None', ms: 0, at: () => ({ opacity: 1, transform: 'none' }) },
+  pop: { label: 'Pop', ms: 280, at: (p) => ({ opacity: clamp01(p * 3), transform: `scale(${(0.6 + 0.4 * easeOutBack(p)).toFixed(4)})` }) },
+  slide: { label: 'Slide up', ms: 320, at: (p) => ({ opacity: clamp01(p * 2), transform: `translateY(${((1 - easeOutCubic(p)) * 60).toFixed(2)}%)` }) },
+  fade: { label: 'Fade', ms: 280, at: (p) => ({ opacity: clamp01(p), transform: 'none' }) },
+  // damped spring, like iMessage's send: overshoots slightly and settles
+  spring: { label: 'iMessage send', ms: 650, at: (p) => { const k = 1 - Math.exp(-6 * p) * Math.cos(11 * p); return { opacity: clamp01(p * 4), transform: `translateY(${((1 - k) * 80).toFixed(2)}%) scale(${(0.85 + 0.15 * k).toFixed(4)})` }; } },
+};
+const ENTER_KEYS = Object.keys(ENTER_ANIMS) as EnterAnim[];
+/** Entrance style `ms` after the bubble showed; null once it has settled (so settled frames match exactly) */
+function enterStyle(anim: EnterAnim, ms: number): MotionStyle | null {
+  const a = ENTER_ANIMS[anim] ?? ENTER_ANIMS.none;
+  return a.ms > 0 && ms < a.ms ? a.at(clamp01(ms / a.ms)) : null;
+}
+const CAMERA_MOVES: Record<CameraMove, { label: string; ms: number }> = { zoom: { label: 'Zoom in', ms: 2400 }, shake: { label: 'Shake', ms: 600 } };
+const CAMERA_KEYS = Object.keys(CAMERA_MOVES) as CameraMove[];
+/** Zoom envelope 0 → 1 → 0: ease in, hold, ease out */
+const zoomAmount = (ms: number) => { const d = CAMERA_MOVES.zoom.ms, e = 450; return ms < 0 || ms >= d ? 0 : ms < e ? easeInOut(ms / e) : ms < d - e ? 1 : easeInOut((d - ms) / e); };
+/** Horizontal shake in [-1, 1], decaying to rest */
+const shakeAmount = (ms: number) => { const d = CAMERA_MOVES.shake.ms; return ms < 0 || ms >= d ? 0 : (1 - ms / d) * Math.sin((ms / d) * Math.PI * 9); };
+
+// ------------------------ script DSL ------------------------
+// Plain-text chat format for writers:
+//   --- Today 7:42 PM ---     time separator
+//   > Hey, you free?          SENDER message      (lines indented by two spaces continue it; "  " alone is a blank line)
+//   < Yep!                    RECEIVER message
+//   [delay 1.5] [typing 2] [tapback love @0.5] [receipt Read 7:43 PM @1] [from Ben]   apply to the message above
+//   [enter pop] [camera zoom]   entrance animation / HUD camera move for the message above
+//   [edit Line one\nline two @2]   later edit; in any argument \n is a line break, \] a bracket, \\ a backslash
+//   # comment
+export type ScriptError = { line: number; message: string };
+type ScriptContext = { chat: ChatInfo };
+type DirectiveSpec = {
+  parse: (m: Message, arg: string, ctx: ScriptContext) => string | void; // returns an error message
+  emit: (m: Message, ctx: ScriptContext) => string | null;
+};
+const fmtNum = (n: number) => String(Math.round(n * 1000) / 1000);
+const parseSeconds = (arg: string): number | null => { const n = Number(arg); return arg !== '' && Number.isFinite(n) && n >= 0 ? n : null; };
+// a directive argument sits on one line inside brackets: line breaks are written \n, brackets \] (and backslashes \\)
+const escapeArg = (v: string) => v.replace(/[\\\]]/g, '\\$&').replace(/\n/g, '\\n');
+const unescapeArg = (v: string) => v.replace(/\\([n\\\]])/g, (_, c) => (c === 'n' ? '\n' : c));
+// "value @offset" — the optional trailing @n is seconds after the bubble appears
+const splitAt = (arg: string): [string, number | undefined | null] => { const mm = arg.match(/^(.*?)\s*@\s*(\S+)$/); return mm ? [mm[1], parseSeconds(mm[2])] : [arg, undefined]; };
+const SCRIPT_DIRECTIVES: Record<string, DirectiveSpec> = {
+  delay: {
+    parse: (m, arg) => { const n = parseSeconds(arg); if (n === null) return `[delay] needs seconds, got "${arg}"`; m.delay_s = n; },
+    emit: (m) => (m.delay_s != null ? `[delay ${fmtNum(m.delay_s)}]` : null),
+  },
+  typing: {
+    parse: (m, arg) => { const n = parseSeconds(arg); if (n === null) return `[typing] needs seconds, got "${arg}"`; if (m.speaker !== 'RECEIVER') return '[typing] only applies to "<" (receiver) messages'; m.typing_s = n; },
+    emit: (m) => (m.typing_s != null && m.speaker === 'RECEIVER' ? `[typing ${fmtNum(m.typing_s)}]` : null),
+  },
+  tapback: {
+    parse: (m, arg) => {
+      const [v, at] = splitAt(arg);
+      if (!TAPBACKS.includes(v as Tapback)) return `Unknown tapback "${v}" (use ${TAPBACKS.join(', ')})`;
+      if (at === null) return '[tapback … @n] needs seconds after @';
+      m.tapback = v; if (at !== undefined) m.tapback_delay_s = at;
+    },
+    emit: (m) => (m.tapback ? `[tapback ${m.tapback}${m.tapback_delay_s != null ? ` @${fmtNum(m.tapback_delay_s)}` : ''}]` : null),
+  },
+  receipt: {
+    parse: (m, arg) => {
+      const [v, at] = splitAt(arg);
+      if (!v) return '[receipt] needs text, e.g. [receipt Read 7:43 PM]';
+      if (at === null) return '[receipt … @n] needs seconds after @';
+      m.read_receipt = unescapeArg(v); if (at !== undefined) m.receipt_delay_s = at;
+    },
+    emit: (m) => (m.read_receipt ? `[receipt ${escapeArg(m.read_receipt)}${m.receipt_delay_s != null ? ` @${fmtNum(m.receipt_delay_s)}` : ''}]` : null),
+  },
+  photo: {
+    parse: (m, arg) => { if (arg) return '[photo] takes no argument (the message text is the caption)'; m.kind = 'photo'; },
+    emit: (m) => (m.kind === 'photo' ? '[photo]' : null),
+  },
+  voice: {
+    parse: (m, arg) => { const n = parseSeconds(arg || '5'); if (n === null) return `[voice] needs seconds, got "${arg}"`; m.kind = 'voice'; m.voice_s = n; },
+    emit: (m) => (m.kind === 'voice' ? `[voice ${fmtNum(m.voice_s ?? 5)}]` : null),
+  },
+  link: {
+    parse: (m, arg) => { const [url, title, desc] = arg.split('|').map((x) => unescapeArg(x.trim())); if (!url) return '[link] needs a URL, e.g. [link https://example.com | Title | Description]'; m.kind = 'link'; m.link_url = url; m.link_title = title || undefined; m.link_desc = desc || undefined; },
+    emit: (m) => (m.kind === 'link' ? `[link ${[m.link_url || '', m.link_title, m.link_desc].filter((x, i) => i === 0 || x).map((x) => escapeArg(x as string)).join(' | ')}]` : null),
+  },
+  sticker: {
+    parse: (m, arg) => { if (arg) return '[sticker] takes no argument (the message text is the emoji)'; m.kind = 'sticker'; },
+    emit: (m) => (m.kind === 'sticker' ? '[sticker]' : null),
+  },
+  enter: {
+    parse: (m, arg) => { if (!ENTER_KEYS.includes(arg as EnterAnim)) return `Unknown entrance "${arg}" (use ${ENTER_KEYS.join(', ')})`; m.enter = arg as EnterAnim; },
+    emit: (m) => (m.enter ? `[enter ${m.enter}]` : null),
+  },
+  camera: {
+    parse: (m, arg) => { if (!CAMERA_KEYS.includes(arg as CameraMove)) return `Unknown camera move "${arg}" (use ${CAMERA_KEYS.join(', ')})`; m.camera = arg as CameraMove; },
+    emit: (m) => (m.camera ? `[camera ${m.camera}]` : null),
+  },
+  edit: {
+    parse: (m, arg) => {
+      const [v, at] = splitAt(arg);
+      if (at === null) return '[edit … @n] needs seconds after @';
+      m.edited_text = unescapeArg(v); if (at !== undefined) m.edit_delay_s = at;
+    },
+    emit: (m) => (m.edited_text != null ? `[edit ${escapeArg(m.edited_text)}${m.edit_delay_s != null ? ` @${fmtNum(m.edit_delay_s)}` : ''}]` : null),
+  },
+  unsend: {
+    parse: (m, arg) => { const [v, at] = splitAt(arg); if (v || at === null) return '[unsend] takes only an optional @seconds, e.g. [unsend @2]'; m.unsent = true; if (at !== undefined) m.unsend_delay_s = at; },
+    emit: (m) => (m.unsent ? `[unsend${m.unsend_delay_s != null ? ` @${fmtNum(m.unsend_delay_s)}` : ''}]` : null),
+  },
+  failed: {
+    parse: (m, arg) => {
+      const [v, at] = splitAt(arg);
+      if (m.speaker !== 'SENDER') return '[failed] only applies to ">" (sender) messages';
+      if (v || at === null) return '[failed] takes only an optional @seconds, e.g. [failed @1]';
+      m.failed = true; if (at !== undefined) m.fail_delay_s = at;
+    },
+    emit: (m) => (m.failed && m.speaker === 'SENDER' ? `[failed${m.fail_delay_s != null ? ` @${fmtNum(m.fail_delay_s)}` : ''}]` : null),
+  },
+  from: {
+    parse: (m, arg, { chat }) => {
+      if (m.speaker !== 'RECEIVER') return '[from] only applies to "<" (receiver) messages';
+      const name = unescapeArg(arg), p = chat.participants.find((x) => x.name.toLowerCase() === name.toLowerCase());
+      if (!p) return chat.participants.length ? `Unknown participant "${name}" (have ${chat.participants.map((x) => x.name).join(', ')})` : '[from] needs group participants (Identity → Group chat)';
+      m.participant_id = p.id;
+    },
+    emit: (m, { chat }) => { const p = chat.group && m.speaker === 'RECEIVER' ? chat.participants.find((x) => x.id === m.participant_id) : undefined; return p ? `[from ${escapeArg(p.name)}]` : null; },
+  },
+};
+
+// what the text format writes; anything else (attachments, a 1:1 chat's participant, fields added later) is kept from the matched message
+const SCRIPT_FIELDS = new Set<string>(['id', 'speaker', 'text', 'delay_s', 'typing_s', 'tapback', 'tapback_delay_s', 'read_receipt', 'receipt_delay_s', 'kind', 'voice_s',
+  'link_url', 'link_title', 'link_desc', 'enter', 'camera', 'edited_text', 'edit_delay_s', 'unsent', 'unsend_delay_s', 'failed', 'fail_delay_s']);
+const MEDIA_FIELDS = new Set<string>(['media_url', 'media_w', 'media_h', 'link_image']);
+
+/** Pair each parsed message with the one it was: unchanged lines by longest common subsequence, edited ones by order between those */
+function matchMessages(next: Message[], prev: Message[]): Array<Message | undefined> {
+  const key = (m: Message) => `${m.speaker}\n${m.text}`;
+  const n = next.length, p = prev.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(p + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) for (let j = p - 1; j >= 0; j--) lcs[i][j] = key(next[i]) === key(prev[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+  const out: Array<Message | undefined> = new Array(n).fill(undefined);
+  let i = 0, j = 0, gi = 0, gj = 0;
+  // the gap since the last unchanged pair holds messages edited in place: pair them in order by speaker and kind
+  const closeGap = () => {
+    for (let k = gj; gi < i; gi++) {
+      const m = next[gi], q = prev.slice(k, j).findIndex((x) => x.speaker === m.speaker && (x.kind || 'text') === (m.kind || 'text'));
+      if (q >= 0) { out[gi] = prev[k + q]; k += q + 1; }
+    }
+    gi = i; gj = j;
+  };
+  while (i < n && j < p) {
+    if (key(next[i]) === key(prev[j]) && lcs[i][j] === lcs[i + 1][j + 1] + 1) { closeGap(); out[i++] = prev[j++]; gi = i; gj = j; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) i++; else j++;
+  }
+  i = n; j = p; closeGap();
+  return out;
+}
+
+/** Parse the chat DSL. Each message keeps the id (and unwritten fields) of the `prev` message it matches, so edits keep keys, selection and media. */
+function parseScript(src: string, prev: Message[] = [], ctx: ScriptContext = { chat: DEFAULT_CHAT }): { messages: Message[]; timeLine?: string; errors: ScriptError[] } {
+  const messages: Message[] = [];
+  const errors: ScriptError[] = [];
+  let timeLine: string | undefined;
+  let last: Message | null = null;
+  src.replace(/\r\n?/g, '\n').split('\n').forEach((raw, idx) => {
+    const line = idx + 1;
+    if (raw.startsWith('  ') && last) { last.text += '\n' + raw.slice(2); return; }
+    const s = raw.trim();
+    if (!s || s.startsWith('#')) return;
+    const sep = s.match(/^-{3,}\s*(.*?)\s*-{3,}$/);
+    if (sep) { if (timeLine !== undefined) errors.push({ line, message: 'Only one time separator (--- … ---) is supported' }); else timeLine = sep[1]; return; }
+    const msg = s.match(/^([<>])\s?(.*)$/);
+    if (msg) {
+      last = { id: '', speaker: msg[1] === '>' ? 'SENDER' : 'RECEIVER', text: raw.trimStart().slice(1).replace(/^ /, '') };
+      messages.push(last); return;
+    }
+    if (s.startsWith('[')) {
+      const re = /\[\s*(\w+)\s*((?:[^\]\\]|\\.)*?)\s*\]/g; let rest = s; let d: RegExpExecArray | null;
+      while ((d = re.exec(s))) {
+        rest = rest.replace(d[0], '');
+        const spec = SCRIPT_DIRECTIVES[d[1].toLowerCase()];
+        if (!spec) { errors.push({ line, message: `Unknown directive [${d[1]}] (use ${Object.keys(SCRIPT_DIRECTIVES).join(', ')})` }); continue; }
+        if (!last) { errors.push({ line, message: `[${d[1]}] must follow a message` }); continue; }
+        const err = spec.parse(last, d[2], ctx); if (err) errors.push({ line, message: err });
+      }
+      if (rest.trim()) errors.push({ line, message: `Unexpected text "${rest.trim()}" after directive` });
+      return;
+    }
+    errors.push({ line, message: 'Lines must start with ">" (sender), "<" (receiver), "[directive]", "---" or "#"' });
+  });
+  // Images can't live in plain text: attachments carry over while the matched message keeps its kind
+  matchMessages(messages, prev).forEach((p, i) => {
+    const m = messages[i] as Record<string, unknown>;
+    m.id = p?.id ?? rid(); if (!p) return;
+    const sameKind = (p.kind || 'text') === (messages[i].kind || 'text');
+    Object.entries(p).forEach(([k, v]) => { if (!SCRIPT_FIELDS.has(k) && !(k === 'participant_id' && ctx.chat.group) && !(MEDIA_FIELDS.has(k) && !sameKind) && m[k] === undefined) m[k] = v; });
+  });
+  return { messages, timeLine, errors };
+}
+
+/** Inverse of parseScript: the same text format, one directive line per message when it has any. */
+function serializeScript(messages: Message[], timeLine?: string, ctx: ScriptContext = { chat: DEFAULT_CHAT }): string {
+  const out: string[] = [];
+  if (timeLine) out.push(`--- ${timeLine} ---`, '');
+  for (const m of messages) {
+    const [first, ...more] = m.text.split('\n');
+    out.push(`${m.speaker === 'SENDER' ? '>' : '<'} ${first}`, ...more.map((l) => `  ${l}`));
+    const dirs = Object.values(SCRIPT_DIRECTIVES).map((d) => d.emit(m, ctx)).filter(Boolean);
+    if (dirs.length) out.push(dirs.join(' '));
+  }
+  return out.join('\n') + '\n';
+}
+
+// ------------------------ project documents ------------------------
+// A project IS the render manifest plus a version number; older files are migrated forward on load.
+const PROJECT_VERSION = 7;
+export type ProjectDoc = {
+  kind: 'FAKE_TEXT';
+  version: number;
+  canvas: { width: number; height: number; fps: number; dpr: number };
+  output: { format: ExportFormat };
+  pacing: PacingSettings;
+  background: BackgroundSettings;
+  theme?: ThemeSettings; // palette/font overrides on top of the skin
+  layout: { mode: LayoutMode; splitName?: string }; // SPLIT: two phones, the second showing the chat from the other side (as splitName)
+  messages: Message[];
+  meta: { title?: string; contactName: string; timeLine: string; avatarUrl?: string };
+  chat: ChatInfo;
+  audio: AudioSettings;
+  settings: UISettings;
+  scenes?: Scene[]; // further chats after the top-level one, in order (see foldScenes)
+  intro?: IntroSettings; // lock/home screen with notifications before the chat
+  thumbnail?: ThumbnailSettings; // cover image title and moment (Export tab)
+};
+export type LayoutMode = 'SINGLE' | 'SPLIT';
+/** A later chat in a multi-scene story, with its own contact, look and script, entered by `transition` */
+export type Scene = {
+  id: string;
+  transition: SceneTransition;
+  meta: { contactName: string; timeLine: string; avatarUrl?: string };
+  chat: ChatInfo;
+  settings: UISettings;
+  background: BackgroundSettings;
+  theme?: ThemeSettings;
+  messages: Message[];
+};
+
+const isObj = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// v1 → v2: unversioned manifests (no avatar, partial settings); v2 → v3: two-party chats gain an (empty) participants list;
+// v3 → v4: audio settings; v4 → v5: narration (off); v5 → v6: export format (canvas size/fps were always recorded); v6 → v7: pacing (40 s fit, as before)
+const MIGRATIONS: Record<number, (d: Record<string, any>) => Record<string, any>> = {
+  1: (d) => ({ ...d, version: 2, meta: { ...d.meta, avatarUrl: undefined } }),
+  2: (d) => ({ ...d, version: 3, chat: { ...DEFAULT_CHAT } }),
+  3: (d) => ({ ...d, version: 4, audio: { ...DEFAULT_AUDIO, messageSounds: false } }), // older exports were silent
+  4: (d) => ({ ...d, version: 5, audio: { ...d.audio, narration: { ...DEFAULT_AUDIO.narration } } }),
+  5: (d) => ({ ...d, version: 6, output: { format: 'mp4' } }),
+  6: (d) => ({ ...d, version: 7, pacing: { ...DEFAULT_PACING } }),
 };
 
+const checkNum = (issues: string[], path: string, x: unknown) => { if (x !== undefined && (typeof x !== 'number' || !Number.isFinite(x) || x < 0)) issues.push(`${path} must be a non-negative number`); };
+const checkUnit = (issues: string[], path: string, x: unknown) => { if (typeof x !== 'number' || !(x >= 0 && x <= 1)) issues.push(`${path} must be a number from 0 to 1`); };
+
+/** One chat of a document: the top level or a scene */
+type ChatDoc = Pick<Scene, 'meta' | 'chat' | 'settings' | 'background' | 'theme' | 'messages'>;
+/**
+ * Validate one chat's script, contact, style, background and theme. A scene leaves out whatever it shares with the top
+ * level (`base`). Message ids already in `seen` (a repeat within the story) are replaced so every bubble keys uniquely.
+ */
+function parseChat(raw: unknown, path: string, issues: string[], seen: Set<string>, base?: ChatDoc): ChatDoc {
+  const at = (k: string) => (path ? `${path}.${k}` : k);
+  const num = (p: string, x: unknown) => checkNum(issues, p, x);
+  const d = isObj(raw) ? raw : {};
+  if (!Array.isArray(d.messages)) issues.push(`${at('messages')} must be an array`);
+  const messages: Message[] = (Array.isArray(d.messages) ? d.messages : []).flatMap((m: unknown, i: number): Message[] => {
+    const p = at(`messages[${i}]`);
+    if (!isObj(m)) { issues.push(`${p} must be an object`); return []; }
+    if (m.speaker !== 'SENDER' && m.speaker !== 'RECEIVER') issues.push(`${p}.speaker must be "SENDER" or "RECEIVER"`);
+    if (typeof m.text !== 'string') issues.push(`${p}.text must be a string`);
+    num(`${p}.delay_s`, m.delay_s); num(`${p}.typing_s`, m.typing_s); num(`${p}.tapback_delay_s`, m.tapback_delay_s); num(`${p}.receipt_delay_s`, m.receipt_delay_s);
+    if (m.tapback != null && !TAPBACKS.includes(m.tapback)) issues.push(`${p}.tapback must be one of ${TAPBACKS.join(', ')}`);
+    if (m.read_receipt !== undefined && typeof m.read_receipt !== 'string') issues.push(`${p}.read_receipt must be a string`);
+    if (m.participant_id !== undefined && typeof m.participant_id !== 'string') issues.push(`${p}.participant_id must be a string`);
+    if (m.kind !== undefined && !MESSAGE_KINDS.includes(m.kind)) issues.push(`${p}.kind must be one of ${MESSAGE_KINDS.join(', ')}`);
+    num(`${p}.voice_s`, m.voice_s); num(`${p}.media_w`, m.media_w); num(`${p}.media_h`, m.media_h);
+    for (const k of ['media_url', 'link_image']) if (m[k] != null && (typeof m[k] !== 'string' || !m[k].startsWith('data:image/'))) issues.push(`${p}.${k} must be an image data URL`);
+    for (const k of ['link_url', 'link_title', 'link_desc']) if (m[k] !== undefined && typeof m[k] !== 'string') issues.push(`${p}.${k} must be a string`);
+    if (m.enter !== undefined && !ENTER_KEYS.includes(m.enter)) issues.push(`${p}.enter must be one of ${ENTER_KEYS.join(', ')}`);
+    if (m.camera !== undefined && !CAMERA_KEYS.includes(m.camera)) issues.push(`${p}.camera must be one of ${CAMERA_KEYS.join(', ')}`);
+    if (m.edited_text !== undefined && typeof m.edited_text !== 'string') issues.push(`${p}.edited_text must be a string`);
+    for (const k of ['unsent', 'failed']) if (m[k] !== undefined && typeof m[k] !== 'boolean') issues.push(`${p}.${k} must be true or false`);
+    num(`${p}.edit_delay_s`, m.edit_delay_s); num(`${p}.unsend_delay_s`, m.unsend_delay_s); num(`${p}.fail_delay_s`, m.fail_delay_s);
+    const id = typeof m.id === 'string' && m.id && !seen.has(m.id) ? m.id : rid();
+    seen.add(id);
+    return [{ ...(m as Message), id }];
+  });
+  const meta = isObj(d.meta) ? d.meta : (issues.push(`${at('meta')} must be an object`), {} as Record<string, any>);
+  if (typeof meta.contactName !== 'string') issues.push(`${at('meta.contactName')} must be a string`);
+  if (typeof meta.timeLine !== 'string') issues.push(`${at('meta.timeLine')} must be a string`);
+  if (meta.avatarUrl != null && (typeof meta.avatarUrl !== 'string' || !meta.avatarUrl.startsWith('data:image/'))) issues.push(`${at('meta.avatarUrl')} must be an image data URL`);
+  const chat = d.chat === undefined && base ? DEFAULT_CHAT : isObj(d.chat) ? d.chat : (issues.push(`${at('chat')} must be an object`), {} as Record<string, any>);
+  if (!Array.isArray(chat.participants)) issues.push(`${at('chat.participants')} must be an array`);
+  const participants: unknown[] = Array.isArray(chat.participants) ? chat.participants : [];
+  participants.forEach((x, i) => {
+    const p = at(`chat.participants[${i}]`);
+    if (!isObj(x) || typeof x.id !== 'string' || !x.id) issues.push(`${p}.id must be a non-empty string`);
+    else if (typeof x.name !== 'string') issues.push(`${p}.name must be a string`);
+    else if (x.avatarUrl != null && (typeof x.avatarUrl !== 'string' || !x.avatarUrl.startsWith('data:image/'))) issues.push(`${p}.avatarUrl must be an image data URL`);
+  });
+  const settings: Record<string, any> = isObj(d.settings) ? d.settings : base ? base.settings : {};
+  for (const [k, dv] of Object.entries(DEFAULT_SETTINGS)) if (typeof dv === 'number') num(at(`settings.${k}`), settings[k]);
+  if (settings.uiStyle !== undefined && !SKIN_KEYS.includes(settings.uiStyle)) issues.push(`${at('settings.uiStyle')} must be one of ${SKIN_KEYS.join(', ')}`);
+  if (settings.themeMode !== undefined && settings.themeMode !== 'DARK' && settings.themeMode !== 'LIGHT') issues.push(`${at('settings.themeMode')} must be "DARK" or "LIGHT"`);
+  if (settings.enterAnim !== undefined && !ENTER_KEYS.includes(settings.enterAnim)) issues.push(`${at('settings.enterAnim')} must be one of ${ENTER_KEYS.join(', ')}`);
+  for (const k of ['statusBar', 'composer', 'keyboard', 'composerTyping']) if (settings[k] !== undefined && typeof settings[k] !== 'boolean') issues.push(`${at(`settings.${k}`)} must be true or false`);
+  if (settings.clock !== undefined && typeof settings.clock !== 'string') issues.push(`${at('settings.clock')} must be a string`);
+  if (settings.batteryPct !== undefined && !(typeof settings.batteryPct === 'number' && settings.batteryPct >= 0 && settings.batteryPct <= 100)) issues.push(`${at('settings.batteryPct')} must be from 0 to 100`);
+  const bg: Record<string, any> = isObj(d.background) ? d.background : base ? base.background : { ...DEFAULT_BACKGROUND };
+  if (!BACKGROUND_TYPES.includes(bg.type)) issues.push(`${at('background.type')} must be one of ${BACKGROUND_TYPES.join(', ')}`);
+  if (typeof bg.value !== 'string') issues.push(`${at('background.value')} must be a color string`);
+  if (bg.type === 'gradient') {
+    const g = bg.gradient;
+    if (!isObj(g) || (g.kind !== 'linear' && g.kind !== 'radial') || typeof g.from !== 'string' || typeof g.to !== 'string' || typeof g.angle !== 'number') issues.push(`${at('background.gradient')} must have kind ("linear" or "radial"), from, to and angle`);
+  }
+  if (bg.type === 'image' || bg.type === 'video') {
+    const mm = bg.media;
+    if (!isObj(mm) || typeof mm.dataUrl !== 'string' || !mm.dataUrl.startsWith(`data:${bg.type}/`)) issues.push(`${at('background.media.dataUrl')} must be ${bg.type === 'image' ? 'an image' : 'a video'} data URL`);
+    else {
+      if (mm.fit !== 'cover' && mm.fit !== 'contain') issues.push(`${at('background.media.fit')} must be "cover" or "contain"`);
+      num(at('background.media.blur'), mm.blur); checkUnit(issues, at('background.media.dim'), mm.dim);
+    }
+  }
+  const cap = bg.captions;
+  if (cap != null && (!isObj(cap) || typeof cap.top !== 'string' || typeof cap.bottom !== 'string' || typeof cap.color !== 'string' || typeof cap.box !== 'boolean' || typeof cap.fontPx !== 'number' || !(cap.fontPx > 0))) issues.push(`${at('background.captions')} must have top, bottom, fontPx, color and box`);
+  const theme = 'theme' in d ? (d.theme != null ? checkTheme(d.theme, at('theme'), issues) : undefined) : base?.theme;
+  return {
+    messages,
+    meta: { contactName: meta.contactName, timeLine: meta.timeLine, avatarUrl: meta.avatarUrl || undefined },
+    chat: { group: !!chat.group, groupName: typeof chat.groupName === 'string' ? chat.groupName : '', participants: participants.filter(isObj).map((x) => ({ id: x.id, name: x.name, avatarUrl: x.avatarUrl || undefined, color: typeof x.color === 'string' ? x.color : undefined })) },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    background: {
+      type: bg.type, value: bg.value,
+      gradient: bg.type === 'gradient' ? { kind: bg.gradient.kind, from: bg.gradient.from, to: bg.gradient.to, angle: bg.gradient.angle } : undefined,
+      media: bg.type === 'image' || bg.type === 'video' ? { dataUrl: bg.media.dataUrl, name: String(bg.media.name ?? bg.type), fit: bg.media.fit, blur: bg.media.blur ?? 0, dim: bg.media.dim } : undefined,
+      captions: cap ? { top: cap.top, bottom: cap.bottom, fontPx: cap.fontPx, color: cap.color, box: cap.box } : undefined,
+    },
+    theme,
+  };
+}
+
+/** Validate + migrate anything that claims to be a project/manifest. Throws an Error listing every problem found. */
+function parseProject(raw: unknown): ProjectDoc {
+  let d: Record<string, any>;
+  if (typeof raw === 'string') { try { d = JSON.parse(raw); } catch (e: any) { throw new Error(`Not valid JSON: ${e?.message || e}`); } }
+  else d = raw as any;
+  if (!isObj(d)) throw new Error('Project file must contain a JSON object.');
+  if (d.kind !== 'FAKE_TEXT') throw new Error(`Unsupported document kind ${JSON.stringify(d.kind)} (expected "FAKE_TEXT").`);
+  let v = d.version ?? 1;
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) throw new Error(`Invalid version ${JSON.stringify(d.version)}.`);
+  if (v > PROJECT_VERSION) throw new Error(`Project version ${v} is newer than this app supports (${PROJECT_VERSION}). Update the app to open it.`);
+  while (v < PROJECT_VERSION) { d = MIGRATIONS[v](d); v = d.version; }
+
+  const issues: string[] = [];
+  const num = (path: string, x: unknown) => checkNum(issues, path, x);
+  const unit = (path: string, x: unknown) => checkUnit(issues, path, x);
+  const seen = new Set<string>();
+  const main = parseChat(d, '', issues, seen);
+  const audio = isObj(d.audio) ? d.audio : (issues.push('audio must be an object'), {} as any);
+  if (typeof audio.messageSounds !== 'boolean') issues.push('audio.messageSounds must be true or false');
+  unit('audio.soundVolume', audio.soundVolume);
+  if (audio.music != null) {
+    const mu = audio.music;
+    if (!isObj(mu) || typeof mu.dataUrl !== 'string' || !mu.dataUrl.startsWith('data:audio/')) issues.push('audio.music.dataUrl must be an audio data URL');
+    else { unit('audio.music.volume', mu.volume); num('audio.music.fadeOutS', mu.fadeOutS); }
+  }
+  const nar = isObj(audio.narration) ? audio.narration : (issues.push('audio.narration must be an object'), {} as any);
+  if (typeof nar.enabled !== 'boolean') issues.push('audio.narration.enabled must be true or false');
+  if (typeof nar.provider !== 'string') issues.push('audio.narration.provider must be a string');
+  unit('audio.narration.volume', nar.volume);
+  if (!isObj(nar.voices) || Object.values(nar.voices).some((x) => typeof x !== 'string')) issues.push('audio.narration.voices must map speakers to voice ids');
+  const canvas = { width: CANVAS.w, height: CANVAS.h, fps: 30, dpr: 2, ...(isObj(d.canvas) ? d.canvas : {}) };
+  for (const k of ['width', 'height'] as const) if (!Number.isInteger(canvas[k]) || canvas[k] < 240 || canvas[k] > 4096 || canvas[k] % 2) issues.push(`canvas.${k} must be an even number of pixels from 240 to 4096`);
+  if (!FPS_OPTIONS.includes(canvas.fps)) issues.push(`canvas.fps must be one of ${FPS_OPTIONS.join(', ')}`);
+  const output = isObj(d.output) ? d.output : (issues.push('output must be an object'), {} as any);
+  if (!(output.format in EXPORT_FORMATS)) issues.push(`output.format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  const pacing = isObj(d.pacing) ? d.pacing : (issues.push('pacing must be an object'), {} as any);
+  if (!PACING_MODES.includes(pacing.mode)) issues.push(`pacing.mode must be one of ${PACING_MODES.join(', ')}`);
+  if (typeof pacing.fitS !== 'number' || !(pacing.fitS >= 3)) issues.push('pacing.fitS must be at least 3 seconds');
+  if (typeof pacing.wpm !== 'number' || !(pacing.wpm >= 60 && pacing.wpm <= 1000)) issues.push('pacing.wpm must be from 60 to 1000 words per minute');
+  if (typeof pacing.partS !== 'number' || !(pacing.partS === 0 || pacing.partS >= 5)) issues.push('pacing.partS must be 0 (no split) or at least 5 seconds');
+  if (typeof pacing.endCards !== 'boolean') issues.push('pacing.endCards must be true or false');
+  const layout = isObj(d.layout) ? d.layout : { mode: 'SINGLE' };
+  if (layout.mode !== 'SINGLE' && layout.mode !== 'SPLIT') issues.push('layout.mode must be "SINGLE" or "SPLIT"');
+  if (layout.splitName !== undefined && typeof layout.splitName !== 'string') issues.push('layout.splitName must be a string');
+  const intro = d.intro != null ? (isObj(d.intro) ? d.intro : (issues.push('intro must be an object'), undefined)) : undefined;
+  if (intro) {
+    if (!INTRO_SCREENS.includes(intro.screen)) issues.push(`intro.screen must be one of ${INTRO_SCREENS.join(', ')}`);
+    const introS = typeof intro.durationS === 'number' && intro.durationS >= 1 && intro.durationS <= INTRO_MAX_S ? intro.durationS : (issues.push(`intro.durationS must be from 1 to ${INTRO_MAX_S} seconds`), INTRO_MAX_S);
+    if (typeof intro.wallpaper !== 'string') issues.push('intro.wallpaper must be a CSS colour or gradient');
+    if (!Array.isArray(intro.notifications)) issues.push('intro.notifications must be an array');
+    else intro.notifications.forEach((n: unknown, i: number) => {
+      if (!isObj(n) || typeof n.text !== 'string') issues.push(`intro.notifications[${i}].text must be a string`);
+      else if (typeof n.at_s !== 'number' || !(n.at_s >= 0 && n.at_s < introS)) issues.push(`intro.notifications[${i}].at_s must be ≥ 0 and less than intro.durationS (${introS} s)`);
+      else if (n.title !== undefined && typeof n.title !== 'string') issues.push(`intro.notifications[${i}].title must be a string`);
+    });
+  }
+  const thumb = d.thumbnail != null ? (isObj(d.thumbnail) ? d.thumbnail : (issues.push('thumbnail must be an object'), undefined)) : undefined;
+  if (thumb) {
+    if (typeof thumb.title !== 'string') issues.push('thumbnail.title must be a string');
+    if (typeof thumb.fontPx !== 'number' || !(thumb.fontPx > 0)) issues.push('thumbnail.fontPx must be a positive number');
+    if (!THUMB_POSITIONS.includes(thumb.position)) issues.push(`thumbnail.position must be one of ${THUMB_POSITIONS.join(', ')}`);
+    if (typeof thumb.color !== 'string' || typeof thumb.box !== 'boolean') issues.push('thumbnail must have a color and box');
+    if (typeof thumb.dim !== 'number' || !(thumb.dim >= 0 && thumb.dim <= 1)) issues.push('thumbnail.dim must be from 0 to 1');
+    num('thumbnail.at_s', thumb.at_s);
+  }
+  // each scene is a chat of its own; the style, background and theme it leaves out come from the top level
+  if (d.scenes !== undefined && !Array.isArray(d.scenes)) issues.push('scenes must be an array');
+  const sceneIds = new Set<string>();
+  const scenes: Scene[] = (Array.isArray(d.scenes) ? d.scenes : []).flatMap((sc: unknown, i: number): Scene[] => {
+    if (!isObj(sc)) { issues.push(`scenes[${i}] must be an object`); return []; }
+    if (!TRANSITION_KEYS.includes(sc.transition)) issues.push(`scenes[${i}].transition must be one of ${TRANSITION_KEYS.join(', ')}`);
+    const id = typeof sc.id === 'string' && sc.id && !sceneIds.has(sc.id) ? sc.id : rid();
+    sceneIds.add(id);
+    return [{ id, transition: sc.transition, ...parseChat(sc, `scenes[${i}]`, issues, seen, main) }];
+  });
+  if (issues.length) throw new Error(`Invalid project:\n• ${issues.slice(0, 8).join('\n• ')}${issues.length > 8 ? `\n…and ${issues.length - 8} more` : ''}`);
+
+  return {
+    kind: 'FAKE_TEXT',
+    version: PROJECT_VERSION,
+    canvas,
+    output: { format: output.format },
+    pacing: { mode: pacing.mode, fitS: pacing.fitS, wpm: pacing.wpm, partS: pacing.partS, endCards: pacing.endCards },
+    background: main.background,
+    theme: main.theme,
+    layout: { mode: layout.mode, splitName: typeof layout.splitName === 'string' ? layout.splitName : undefined },
+    messages: main.messages,
+    meta: { title: isObj(d.meta) && typeof d.meta.title === 'string' ? d.meta.title : undefined, ...main.meta },
+    chat: main.chat,
+    audio: { messageSounds: audio.messageSounds, soundVolume: audio.soundVolume, music: audio.music ? { dataUrl: audio.music.dataUrl, name: String(audio.music.name ?? 'music'), volume: audio.music.volume, fadeOutS: audio.music.fadeOutS ?? 0, duck: !!audio.music.duck } : undefined,
+      narration: { enabled: nar.enabled, provider: nar.provider, volume: nar.volume, voices: { ...nar.voices } } },
+    settings: main.settings,
+    scenes: scenes.length ? scenes : undefined,
+    intro: intro ? { screen: intro.screen, durationS: intro.durationS, wallpaper: intro.wallpaper, notifications: (intro.notifications as unknown[]).filter(isObj).map((n) => ({ id: typeof n.id === 'string' && n.id ? n.id : rid(), text: n.text, at_s: n.at_s, title: n.title })) } : undefined,
+    thumbnail: thumb ? { title: thumb.title, at_s: thumb.at_s, fontPx: thumb.fontPx, position: thumb.position, color: thumb.color, box: thumb.box, dim: thumb.dim } : undefined,
+  };
+}
+
+// IndexedDB autosave: one record per project, newest first in the recent list
+export type ProjectRecord = { id: string; name: string; updatedAt: number; doc: ProjectDoc };
+const IDB_NAME = 'fake-text-story';
+const IDB_STORE = 'projects';
+function idbOpen(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(IDB_NAME, 1);
+    req.onupgradeneeded = () => { req.result.createObjectStore(IDB_STORE, { keyPath: 'id' }); };
+    req.onerror = () => reject(req.error || new Error('IndexedDB open failed'));
+    req.onsuccess = () => resolve(req.result);
+  });
+}
+async function idbRun<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await idbOpen();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      req.onerror = () => reject(req.error || new Error('IndexedDB request failed'));
+      req.onsuccess = () => resolve(req.result);
+    });
+  } finally { db.close(); }
+}
+const saveProjectRecord = (rec: ProjectRecord) => idbRun('readwrite', (st) => st.put(rec));
+const deleteProjectRecord = (id: string) => idbRun('readwrite', (st) => st.delete(id));
+const listProjectRecords = async () => ((await idbRun<ProjectRecord[]>('readonly', (st) => st.getAll())) || []).sort((a, b) => b.updatedAt - a.updatedAt);
+
+// ---------------------------- Backgrounds -----------------------------
+// Everything but a solid colour is painted onto a <canvas> (html2canvas copies canvas pixels, but ignores CSS filters
+// and object-fit), so blur, dim and cover/contain look identical in preview and export.
+export type BackgroundType = 'solid' | 'gradient' | 'image' | 'video';
+export type BackgroundSettings = {
+  type: BackgroundType;
+  value: string; // solid colour; also shows around contained media
+  gradient?: { kind: 'linear' | 'radial'; from: string; to: string; angle: number };
+  media?: { dataUrl: string; name: string; fit: 'cover' | 'contain'; blur: number; dim: number }; // image or looping video
+  captions?: { top: string; bottom: string; fontPx: number; color: string; box: boolean }; // hook lines above/below the HUD
+};
+const BACKGROUND_TYPES: BackgroundType[] = ['solid', 'gradient', 'image', 'video'];
+const DEFAULT_BACKGROUND: BackgroundSettings = { type: 'solid', value: '#D0021B' };
+const DEFAULT_GRADIENT: NonNullable<BackgroundSettings['gradient']> = { kind: 'linear', from: '#8B5CF6', to: '#0A84FF', angle: 160 };
+const DEFAULT_CAPTIONS: NonNullable<BackgroundSettings['captions']> = { top: '', bottom: '', fontPx: 56, color: '#FFFFFF', box: false };
+
+/** Decoded image or video for an image/video background. Videos are sought explicitly (never trusted to be playing in sync). */
+export type BackgroundMedia = { el: HTMLImageElement | HTMLVideoElement; w: number; h: number; duration: number; dispose: () => void };
+async function loadBackgroundMedia(bg: BackgroundSettings): Promise<BackgroundMedia | null> {
+  if ((bg.type !== 'image' && bg.type !== 'video') || !bg.media) return null;
+  if (bg.type === 'image') {
+    const img = new Image(); img.src = bg.media.dataUrl;
+    await img.decode();
+    return { el: img, w: img.naturalWidth, h: img.naturalHeight, duration: 0, dispose: () => {} };
+  }
+  // blob: URL rather than a multi-megabyte data: URL, so seeking doesn't re-parse it
+  const bytes = dataUrlToBytes(bg.media.dataUrl);
+  const url = URL.createObjectURL(new Blob([bytes as Uint8Array<ArrayBuffer>], { type: bg.media.dataUrl.slice(5, bg.media.dataUrl.indexOf(';')) }));
+  const v = document.createElement('video');
+  Object.assign(v, { muted: true, loop: true, playsInline: true, preload: 'auto', src: url });
+  try {
+    await new Promise<void>((resolve, reject) => { v.onloadeddata = () => resolve(); v.onerror = () => reject(new Error('Background video could not be decoded')); });
+  } catch (e) { URL.revokeObjectURL(url); throw e; }
+  return { el: v, w: v.videoWidth, h: v.videoHeight, duration: Number.isFinite(v.duration) ? v.duration : 0, dispose: () => { v.pause(); v.removeAttribute('src'); v.load(); URL.revokeObjectURL(url); } };
+}
+/** Where a looping background video is at timeline time `ms` (seconds) */
+const videoTimeAt = (media: BackgroundMedia, ms: number) => (media.duration > 0 ? (ms / 1000) % media.duration : 0);
+const SEEK_TIMEOUT_MS = 10000; // a seek that hasn't landed by then has stalled
+/** Seek and wait for the frame. Rejects on a decode error, an aborted load, a stall or the export's abort signal. */
+function seekVideo(v: HTMLVideoElement, s: number, signal?: AbortSignal): Promise<void> {
+  if (Math.abs(v.currentTime - s) < 0.0005 && v.readyState >= 2) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const done = (err?: unknown) => {
+      clearTimeout(timer); v.removeEventListener('seeked', ok); v.removeEventListener('error', bad); v.removeEventListener('abort', bad); signal?.removeEventListener('abort', cancel);
+      if (err) reject(err); else resolve();
+    };
+    const ok = () => done();
+    const bad = () => done(new Error('Background video stopped decoding while seeking'));
+    const cancel = () => done(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => done(new Error(`Background video did not seek to ${s.toFixed(2)}s within ${SEEK_TIMEOUT_MS / 1000}s`)), SEEK_TIMEOUT_MS);
+    if (signal?.aborted) { cancel(); return; }
+    v.addEventListener('seeked', ok); v.addEventListener('error', bad); v.addEventListener('abort', bad); signal?.addEventListener('abort', cancel);
+    v.currentTime = s;
+  });
+}
+
+/** Paint a gradient, or the media's current frame with fit/blur/dim, over the base colour */
+function paintBackground(ctx: CanvasRenderingContext2D, bg: BackgroundSettings, w: number, h: number, media?: BackgroundMedia | null) {
+  ctx.filter = 'none';
+  ctx.fillStyle = bg.value; ctx.fillRect(0, 0, w, h);
+  if (bg.type === 'gradient') {
+    const g = bg.gradient ?? DEFAULT_GRADIENT;
+    let fill: CanvasGradient;
+    if (g.kind === 'radial') fill = ctx.createRadialGradient(w / 2, h / 2, 0, w / 2, h / 2, Math.hypot(w, h) / 2);
+    else {
+      // CSS angle convention: 0deg points up, 90deg right; the line spans the box like linear-gradient()
+      const a = (g.angle * Math.PI) / 180, dx = Math.sin(a), dy = -Math.cos(a), r = (Math.abs(w * dx) + Math.abs(h * dy)) / 2;
+      fill = ctx.createLinearGradient(w / 2 - dx * r, h / 2 - dy * r, w / 2 + dx * r, h / 2 + dy * r);
+    }
+    fill.addColorStop(0, g.from); fill.addColorStop(1, g.to);
+    ctx.fillStyle = fill; ctx.fillRect(0, 0, w, h);
+    return;
+  }
+  if (!bg.media || !media || !media.w || !media.h) return;
+  const { fit, blur, dim } = bg.media;
+  const k = fit === 'contain' ? Math.min(w / media.w, h / media.h) : Math.max(w / media.w, h / media.h);
+  const pad = blur > 0 && fit === 'cover' ? blur * 2 : 0; // overscan so blurred edges stay opaque
+  const dw = media.w * k + 2 * pad, dh = media.h * k + 2 * pad;
+  if (blur > 0) ctx.filter = `blur(${blur}px)`;
+  ctx.drawImage(media.el, (w - dw) / 2, (h - dh) / 2, dw, dh);
+  ctx.filter = 'none';
+  if (dim > 0) { ctx.fillStyle = `rgba(0,0,0,${clamp01(dim)})`; ctx.fillRect(0, 0, w, h); }
+}
+
+// ---------------------------- Skins -----------------------------
+// Everything platform-specific about the chat UI: palette, header, bubble shape, receipts, reactions, fonts and per-kind
+// quirks. The preview components only read the skin, so a new platform is a new SKINS entry.
+export type SkinId = 'IMESSAGE' | 'WHATSAPP' | 'INSTAGRAM' | 'SNAPCHAT' | 'MESSENGER' | 'DISCORD' | 'TINDER' | 'ANDROID';
+export type ThemeMode = 'DARK' | 'LIGHT';
+export type SkinPalette = {
+  surface: string; header: string; border: string; icon: string;
+  send: string; recv: string; sendText: string; text: string; // `send` may be a CSS gradient
+  sub: string;    // time separator, receipts, group names, header status
+  accent: string; // live header status, iMessage badges
+  card?: string;  // link-card background (skins with linkCards)
+  wave?: string; play?: string; // voice-note waveform and received play button (default: the bubble's text colour)
+};
+export type SkinHeaderProps = { skin: Skin; pal: SkinPalette; chat: ChatInfo; contactName: string; avatarUrl?: string; status: string; live: boolean; h: number; icon: number; avatar: number; nameF: number; subF: number; gap: number; padH: number; maxNameW: number };
+type SkinIcon = (p: { color?: string; size?: number }) => React.ReactElement;
+export type Skin = {
+  label: string;
+  font: string;
+  palette: Record<ThemeMode, SkinPalette>;
+  Header: (p: SkinHeaderProps) => React.ReactElement;
+  icons: Array<[string, SkinIcon]>; // header buttons on the right
+  online: string;                   // 1:1 header status line ('' = none); "typing…" while the contact types
+  placeholder: string;              // empty composer field
+  caret?: boolean;                  // "›" after a centred header title
+  radius: (r: number, isSender: boolean) => string;
+  sendShadow?: string;
+  receipts: 'line' | 'ticks' | 'none'; // a line under the last sent bubble, or ticks on every sent bubble
+  reactions: 'badge' | 'chip';         // badge on the top corner, or emoji chip hanging off the bottom edge
+  glyphs: Record<Tapback, string>;
+  group: { names: 'above' | 'inside'; avatar: 'first' | 'last' }; // incoming group runs
+  barePhotos: boolean; // photos drop the bubble and a caption becomes its own bubble
+  linkCards: boolean;  // links as a preview card, else an inline preview plus the URL inside the bubble
+  flat?: { me: string; avatars: boolean; bar: boolean; upper?: boolean }; // no bubbles: runs headed by the speaker's name
+  pattern?: { image: string; size: string }; // chat body wallpaper
+  headerScale?: { icon: number; avatar: number };
+  unsentNotice?: boolean; // an unsend leaves a centred "You unsent a message" line, else a "This message was deleted" bubble
+  notification?: { app?: string; material?: boolean }; // intro/banner notifications: app name (default: the label), Android Material look
+};
+const tailRadius = (k: number) => (r: number, isSender: boolean) => { const R = Math.round(r * k), small = Math.max(4, Math.round(r * 0.45)); return isSender ? `${R}px ${R}px ${small}px ${R}px` : `${R}px ${R}px ${R}px ${small}px`; };
+const roundRadius = (k: number) => (r: number) => `${Math.round(r * k)}px`;
+const EMOJI_GLYPHS: Record<Tapback, string> = { like: '👍', love: '❤️', laugh: '😂', emphasize: '‼️', question: '❓' };
+const BUBBLE_SKIN = { caret: false, receipts: 'line', reactions: 'chip', glyphs: EMOJI_GLYPHS, group: { names: 'above', avatar: 'last' }, barePhotos: true, linkCards: true } as const;
+const SKINS: Record<SkinId, Skin> = {
+  IMESSAGE: {
+    label: 'iMessage', font: FONT, Header: CenteredHeader, icons: [['FaceTime', FaceTimeLogoOutline]], online: '', placeholder: 'iMessage', caret: true,
+    palette: {
+      DARK: { surface: '#0A0A0A', header: '#1F1F20', border: '#2A2A2A', icon: BLUE, recv: '#1C1C1E', send: BLUE, sendText: '#FFFFFF', text: '#FFFFFF', sub: '#A9A9AD', accent: BLUE, card: '#2C2C2E' },
+      LIGHT: { surface: '#FFFFFF', header: '#F7F7F8', border: '#E5E5EA', icon: BLUE, recv: '#E9E9EB', send: '#0A84FF', sendText: '#FFFFFF', text: '#111111', sub: '#6B7280', accent: BLUE, card: '#E9E9EB' },
+    },
+    radius: roundRadius(1), sendShadow: '0 1px 0 rgba(255,255,255,.08) inset',
+    receipts: 'line', reactions: 'badge', glyphs: { like: '👍', love: '♥', laugh: 'HA\u2009HA', emphasize: '‼', question: '?' },
+    group: { names: 'above', avatar: 'last' }, barePhotos: true, linkCards: true, unsentNotice: true, notification: { app: 'Messages' },
+  },
+  WHATSAPP: {
+    label: 'WhatsApp', font: FONT, Header: InlineHeader, icons: [['Video', VideoOutline], ['Call', PhoneOutline]], online: 'Online', placeholder: 'Message',
+    palette: {
+      DARK: { surface: '#111B21', header: '#202C33', border: '#0B141A', icon: '#FFFFFF', recv: '#1F2C34', send: '#075E54', sendText: '#E9EDEF', text: '#E9EDEF', sub: '#A9A9AD', accent: '#00A884', wave: '#8696A0', play: '#00A884' },
+      LIGHT: { surface: '#F0F2F5', header: '#FFFFFF', border: '#E7E9EC', icon: '#111B21', recv: '#FFFFFF', send: '#D9FDD3', sendText: '#1F2C34', text: '#1F2C34', sub: '#6B7280', accent: '#00A884', wave: '#54656F', play: '#00A884' },
+    },
+    radius: tailRadius(1), receipts: 'ticks', reactions: 'chip', glyphs: EMOJI_GLYPHS,
+    group: { names: 'inside', avatar: 'first' }, barePhotos: false, linkCards: false,
+    pattern: { image: 'radial-gradient(rgba(255,255,255,0.035) 1px, transparent 1px)', size: '18px 18px' }, headerScale: { icon: 1.2, avatar: 1.08 },
+  },
+  INSTAGRAM: {
+    ...BUBBLE_SKIN, label: 'Instagram DM', placeholder: 'Message…', font: FONT, Header: InlineHeader, icons: [['Call', PhoneOutline], ['Video', VideoOutline]], online: 'Active now',
+    palette: {
+      DARK: { surface: '#000000', header: '#000000', border: '#262626', icon: '#F5F5F5', recv: '#262626', send: 'linear-gradient(135deg, #A033FF 0%, #5B51F5 55%, #3797F0 100%)', sendText: '#FFFFFF', text: '#F5F5F5', sub: '#A8A8A8', accent: '#3797F0', card: '#262626' },
+      LIGHT: { surface: '#FFFFFF', header: '#FFFFFF', border: '#DBDBDB', icon: '#000000', recv: '#EFEFEF', send: 'linear-gradient(135deg, #A033FF 0%, #5B51F5 55%, #3797F0 100%)', sendText: '#FFFFFF', text: '#000000', sub: '#737373', accent: '#0095F6', card: '#EFEFEF' },
+    },
+    radius: roundRadius(1.15), unsentNotice: true,
+  },
+  SNAPCHAT: {
+    ...BUBBLE_SKIN, label: 'Snapchat', placeholder: 'Send a chat', font: "'Avenir Next', 'Helvetica Neue', system-ui, sans-serif", Header: InlineHeader, icons: [['Call', PhoneOutline], ['Video', VideoOutline]], online: '',
+    palette: {
+      DARK: { surface: '#121212', header: '#121212', border: '#2A2A2A', icon: '#FFFFFF', recv: '#0FADFF', send: '#F23C57', sendText: '#FFFFFF', text: '#FFFFFF', sub: '#8E8E93', accent: '#0FADFF', card: '#2A2A2A' },
+      LIGHT: { surface: '#FFFFFF', header: '#FFFFFF', border: '#E5E5E5', icon: '#16191C', recv: '#0FADFF', send: '#F23C57', sendText: '#16191C', text: '#16191C', sub: '#8E8E93', accent: '#0FADFF', card: '#F2F2F2' },
+    },
+    radius: roundRadius(0.6), barePhotos: false, flat: { me: 'Me', avatars: false, bar: true, upper: true },
+  },
+  MESSENGER: {
+    ...BUBBLE_SKIN, label: 'Messenger', placeholder: 'Aa', font: FONT, Header: InlineHeader, icons: [['Call', PhoneOutline], ['Video', VideoOutline]], online: 'Active now',
+    palette: {
+      DARK: { surface: '#000000', header: '#0B0B0B', border: '#242526', icon: '#0A7CFF', recv: '#303030', send: '#0A7CFF', sendText: '#FFFFFF', text: '#E4E6EB', sub: '#B0B3B8', accent: '#31A24C', card: '#303030' },
+      LIGHT: { surface: '#FFFFFF', header: '#FFFFFF', border: '#E4E6EB', icon: '#0A7CFF', recv: '#F0F0F0', send: '#0A7CFF', sendText: '#FFFFFF', text: '#050505', sub: '#65676B', accent: '#31A24C', card: '#F0F0F0' },
+    },
+    radius: roundRadius(1), unsentNotice: true,
+  },
+  DISCORD: {
+    ...BUBBLE_SKIN, label: 'Discord DM', placeholder: 'Message', font: "'gg sans', 'Noto Sans', 'Helvetica Neue', Helvetica, Arial, sans-serif", Header: InlineHeader, icons: [['Call', PhoneOutline], ['Video', VideoOutline]], online: '',
+    palette: {
+      DARK: { surface: '#313338', header: '#313338', border: '#1F2023', icon: '#B5BAC1', recv: '#F2F3F5', send: '#F2F3F5', sendText: '#DBDEE1', text: '#DBDEE1', sub: '#949BA4', accent: '#23A55A', card: '#2B2D31' },
+      LIGHT: { surface: '#FFFFFF', header: '#FFFFFF', border: '#E3E5E8', icon: '#4E5058', recv: '#060607', send: '#060607', sendText: '#313338', text: '#313338', sub: '#5C5E66', accent: '#23A55A', card: '#F2F3F5' },
+    },
+    radius: roundRadius(0.45), receipts: 'none', barePhotos: false, linkCards: false, flat: { me: 'You', avatars: true, bar: false },
+  },
+  TINDER: {
+    ...BUBBLE_SKIN, label: 'Tinder', placeholder: 'Type a message', font: FONT, Header: CenteredHeader, icons: [['Video', VideoOutline]], online: '',
+    palette: {
+      DARK: { surface: '#111418', header: '#111418', border: '#21262E', icon: '#FD5068', recv: '#21262E', send: '#1786F8', sendText: '#FFFFFF', text: '#FFFFFF', sub: '#7C8591', accent: '#FD5068', card: '#21262E' },
+      LIGHT: { surface: '#FFFFFF', header: '#FFFFFF', border: '#E9EBEE', icon: '#FD5068', recv: '#E9EBEE', send: '#1786F8', sendText: '#FFFFFF', text: '#21262E', sub: '#7C8591', accent: '#FD5068', card: '#E9EBEE' },
+    },
+    radius: tailRadius(1.1),
+  },
+  ANDROID: {
+    ...BUBBLE_SKIN, label: 'Android SMS', placeholder: 'Text message', font: "Roboto, 'Google Sans', 'Segoe UI', system-ui, sans-serif", Header: InlineHeader, icons: [['Call', PhoneOutline], ['Video', VideoOutline]], online: '',
+    palette: {
+      DARK: { surface: '#131314', header: '#1E1F20', border: '#2A2A2C', icon: '#E3E3E3', recv: '#303030', send: '#0842A0', sendText: '#D3E3FD', text: '#E3E3E3', sub: '#A8A8A8', accent: '#A8C7FA', card: '#303030' },
+      LIGHT: { surface: '#FFFFFF', header: '#F3F6FC', border: '#E1E3E1', icon: '#1F1F1F', recv: '#E9EEF6', send: '#D3E3FD', sendText: '#041E49', text: '#1F1F1F', sub: '#5E5E5E', accent: '#0B57D0', card: '#E9EEF6' },
+    },
+    radius: tailRadius(1.1), group: { names: 'above', avatar: 'first' }, notification: { app: 'Messages', material: true },
+  },
+};
+const SKIN_KEYS = Object.keys(SKINS) as SkinId[];
+const skinOf = (id?: string): Skin => SKINS[id as SkinId] ?? SKINS.IMESSAGE;
+
+// ---------------------------- Themes -----------------------------
+// A theme recolours the current skin (in both modes) and can swap its font. Uploaded fonts become @font-face rules in a
+// <style> tag, which html2canvas' cloned document carries too, and the export stage waits for them before its first frame.
+export type ThemeColorKey = 'send' | 'sendText' | 'recv' | 'text' | 'header' | 'surface';
+export type ThemeSettings = {
+  name: string;
+  colors: Partial<Record<ThemeColorKey, string>>; // unset = the skin's own
+  gradient?: { from: string; to: string; angle: number }; // sent bubbles; wins over colors.send
+  font?: { family: string; dataUrl?: string; fileName?: string }; // a CSS family list, or the name an uploaded font is registered as
+};
+const THEME_COLORS: Record<ThemeColorKey, string> = { send: 'Sent bubble', sendText: 'Sent text', recv: 'Received bubble', text: 'Received text', header: 'Header', surface: 'Chat background' };
+const THEME_COLOR_KEYS = Object.keys(THEME_COLORS) as ThemeColorKey[];
+const DEFAULT_THEME: ThemeSettings = { name: 'My theme', colors: {} };
+const THEME_PRESETS_KEY = 'fts-theme-presets';
+/** Quote a single family name; lists ("Georgia, serif") and already-quoted names pass through */
+// Theme fonts reach a <style> tag: families are quoted and escaped, and only base64 font data URLs are embedded,
+// so an imported theme or project can't close the @font-face rule and add CSS of its own
+const FONT_DATA_URL = /^data:(font\/[\w.+-]+|application\/(x-)?font[\w.+-]*);base64,[A-Za-z0-9+/]*=*$/;
+const UNSAFE_FAMILY = /["\\);{}]/g;
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace', 'ui-rounded', 'emoji', 'math'];
+/** A family list as CSS: every name double-quoted and escaped, generic keywords left bare */
+const cssFamily = (f: string) => f.split(',').map((n) => n.trim().replace(/^'(.*)'$/, '$1')).filter(Boolean)
+  .map((n) => (GENERIC_FAMILIES.includes(n.toLowerCase()) ? n.toLowerCase() : `"${n.replace(/[\\"]/g, '\\$&').replace(/[\n\r\f]/g, ' ')}"`)).join(', ');
+
+function themedSkin(skin: Skin, theme?: ThemeSettings): Skin {
+  if (!theme) return skin;
+  const over: Partial<SkinPalette> = {};
+  for (const k of THEME_COLOR_KEYS) if (theme.colors[k]) over[k] = theme.colors[k];
+  if (theme.gradient) over.send = `linear-gradient(${theme.gradient.angle}deg, ${theme.gradient.from}, ${theme.gradient.to})`;
+  const family = theme.font?.family.trim();
+  return { ...skin, palette: { DARK: { ...skin.palette.DARK, ...over }, LIGHT: { ...skin.palette.LIGHT, ...over } }, font: family && cssFamily(family) ? `${cssFamily(family)}, ${skin.font}` : skin.font };
+}
+
+/** Validate a theme (from a project or a preset file), pushing problems onto `issues`; returns the cleaned theme */
+function checkTheme(t: unknown, path: string, issues: string[]): ThemeSettings {
+  if (!isObj(t)) { issues.push(`${path} must be an object`); return { ...DEFAULT_THEME }; }
+  if (typeof t.name !== 'string') issues.push(`${path}.name must be a string`);
+  const colors: ThemeSettings['colors'] = {};
+  if (!isObj(t.colors)) issues.push(`${path}.colors must be an object`);
+  else for (const [k, v] of Object.entries(t.colors)) {
+    if (!THEME_COLOR_KEYS.includes(k as ThemeColorKey)) issues.push(`${path}.colors.${k} is not a theme colour (use ${THEME_COLOR_KEYS.join(', ')})`);
+    else if (typeof v !== 'string') issues.push(`${path}.colors.${k} must be a colour string`);
+    else colors[k as ThemeColorKey] = v;
+  }
+  const g = t.gradient;
+  if (g != null && (!isObj(g) || typeof g.from !== 'string' || typeof g.to !== 'string' || typeof g.angle !== 'number')) issues.push(`${path}.gradient must have from, to and angle`);
+  const f = t.font;
+  if (f != null && (!isObj(f) || typeof f.family !== 'string' || !f.family.trim())) issues.push(`${path}.font.family must be a non-empty string`);
+  else if (f != null && new RegExp(UNSAFE_FAMILY.source).test(f.family)) issues.push(`${path}.font.family must not contain quotes, backslashes, ")", ";" or braces`);
+  else if (f != null && f.dataUrl != null && (typeof f.dataUrl !== 'string' || !FONT_DATA_URL.test(f.dataUrl))) issues.push(`${path}.font.dataUrl must be a base64 font data URL (data:font/…;base64,…)`);
+  return {
+    name: String(t.name ?? ''), colors,
+    gradient: isObj(g) ? { from: g.from, to: g.to, angle: g.angle } : undefined,
+    font: isObj(f) ? { family: f.family, dataUrl: f.dataUrl || undefined, fileName: typeof f.fileName === 'string' ? f.fileName : undefined } : undefined,
+  };
+}
+/** A theme preset file: { kind: "FAKE_TEXT_THEME", name, colors, gradient?, font? } */
+function parseThemeFile(text: string): ThemeSettings {
+  let d: unknown;
+  try { d = JSON.parse(text); } catch (e: any) { throw new Error(`Not valid JSON: ${e?.message || e}`); }
+  if (!isObj(d) || d.kind !== 'FAKE_TEXT_THEME') throw new Error('Not a theme file (expected "kind": "FAKE_TEXT_THEME").');
+  const issues: string[] = [];
+  const theme = checkTheme(d, 'theme', issues);
+  if (issues.length) throw new Error(`Invalid theme:\n• ${issues.slice(0, 8).join('\n• ')}`);
+  return theme;
+}
+const loadThemePresets = (): ThemeSettings[] => {
+  try { const list = JSON.parse(localStorage.getItem(THEME_PRESETS_KEY) || '[]'); return Array.isArray(list) ? list.filter((t) => { const issues: string[] = []; checkTheme(t, 'theme', issues); return !issues.length; }) : []; }
+  catch { return []; }
+};
+
+/** Register (and wait for) a theme's font. Resolves to a dispose function that removes an uploaded face again. */
+async function loadThemeFont(font?: ThemeSettings['font']): Promise<() => void> {
+  const family = font?.family.trim();
+  if (!family) return () => {};
+  let style: HTMLStyleElement | null = null;
+  if (font?.dataUrl && FONT_DATA_URL.test(font.dataUrl)) {
+    style = document.createElement('style');
+    style.textContent = `@font-face { font-family: ${cssFamily(family)}; src: url("${font.dataUrl}"); font-display: block; }`;
+    document.head.appendChild(style);
+  }
+  await document.fonts.load(`16px ${cssFamily(family)}`).catch(() => {}); // a font that won't load falls back to the skin's families
+  return () => style?.remove();
+}
+
 // ---------------------------- Preview Canvas -----------------------------
+const SCROLL_MS = 320; // new rows ease in (growing the body, or scrolling the history once it's full)
+const COMPOSE_CHAR_MS = 55; // composer typing speed, squeezed to fit shorter gaps
+
+/**
+ * What the composer shows at `timeMs`: the next message, if it's a sent text, is typed in over the tail of the gap before
+ * it's sent (never more than 85% of it), so the story's timing is unchanged. Null when nothing is being typed.
+ */
+function composerDraft(messages: Message[], schedule: ScheduleEntry[], next: number, timeMs: number): { text: string; pressed: string } | null {
+  const m = messages[next];
+  if (!m || m.speaker !== 'SENDER' || (m.kind && m.kind !== 'text') || !m.text) return null;
+  const chars = Array.from(m.text), show = schedule[next].show, prevShow = next > 0 ? schedule[next - 1].show : 0;
+  const span = Math.min(chars.length * COMPOSE_CHAR_MS, (show - prevShow) * 0.85);
+  if (span <= 0 || timeMs < show - span) return null;
+  const n = Math.min(chars.length, Math.ceil((chars.length * (timeMs - (show - span))) / span));
+  return { text: chars.slice(0, n).join(''), pressed: n > 0 ? chars[n - 1].toUpperCase() : '' };
+}
+/**
+ * A preview's own playback clock: the rAF loop (holding the last frame), play/pause, seeking, and publishing the time to
+ * a PreviewClock for the timeline panel. `enabled: false` (exports, time driven from outside) leaves the loop off.
+ */
+function useStoryClock(durationMs: number, clock: PreviewClock | undefined, { enabled = true, autoplay = true, onToggle }: { enabled?: boolean; autoplay?: boolean; onToggle?: (playing: boolean) => void } = {}) {
+  const [t, setT] = useState(0);
+  const [playing, setPlaying] = useState(autoplay);
+  const startRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!enabled || !playing) return;
+    let raf = 0;
+    const step = (now: number) => {
+      if (startRef.current == null) startRef.current = now - t;
+      const elapsed = now - startRef.current;
+      if (elapsed >= durationMs) { setT(durationMs); setPlaying(false); onToggle?.(false); return; } // hold the last frame
+      setT(elapsed); raf = requestAnimationFrame(step);
+    };
+    raf = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(raf);
+  }, [enabled, playing, durationMs]);
+  const timeMs = Math.min(t, durationMs);
+  const toggle = () => {
+    const np = !playing;
+    if (np && t >= durationMs) setT(0); // replay from the top
+    startRef.current = null; // resume from t, not from when playback first started
+    setPlaying(np); onToggle?.(np);
+  };
+  const seekRatio = (r: number) => { const v = clamp01(r) * durationMs; setT(v); startRef.current = performance.now() - v; };
+  useEffect(() => { if (clock) { clock.seek = (ms) => seekRatio(ms / durationMs); clock.toggle = toggle; } });
+  useEffect(() => { if (!clock) return; clock.ms = timeMs; clock.playing = playing; clock.listeners.forEach((f) => f()); }, [clock, timeMs, playing]);
+  return { timeMs, playing, toggle, seekRatio };
+}
+
 function FakeTextPreview({
   exportMode = false,
   contactName,
@@ -110,26 +1041,55 @@ function FakeTextPreview({
   timeScale = 1,
   onTogglePlayExternal,
   timeOverrideMs,
+  chat = DEFAULT_CHAT,
+  audio,
+  canvas = CANVAS,
+  endCard,
+  background,
+  bgMedia,
+  theme,
+  clock,
+  running,
+  column,
+  overlay,
+  intro,
+  tall = false,
 }: {
   exportMode?: boolean;
   contactName: string;
   avatarUrl?: string;
   timeLine: string;
-  messages: Array<{ id: string; speaker: "SENDER" | "RECEIVER"; text: string; delay_s?: number; read_receipt?: string | undefined; tapback?: string | null }>;
+  messages: Message[];
   settings: UISettings;
   bgColor?: string;
   durationMs?: number;
   timeScale?: number;
   onTogglePlayExternal?: (playing: boolean) => void;
   timeOverrideMs?: number;
+  chat?: ChatInfo;
+  audio?: AudioBuffer | null; // pre-mixed story audio, played in sync with the live timeline (preview only)
+  canvas?: CanvasSize;
+  endCard?: { label: string; atMs: number }; // "Part 2 →" card over everything from atMs
+  background?: BackgroundSettings; // painted types + captions; bgColor stays the base colour
+  bgMedia?: BackgroundMedia | null; // decoded image/video for image/video backgrounds
+  theme?: ThemeSettings; // custom palette/font over the skin (its font must already be loaded: see loadThemeFont)
+  clock?: PreviewClock; // live preview only: publishes time and accepts seek/toggle from the timeline panel
+  running?: boolean; // timeOverrideMs outside an export (a StoryPreview drives the time): whether that clock runs
+  column?: { x: number; w: number }; // the band of the canvas width the phone is centred in (fractions; SPLIT layout)
+  overlay?: React.ReactNode; // drawn over the phone, under captions and the end card (the second phone of a SPLIT layout)
+  intro?: IntroSettings; // lock/home screen played first: messages are scheduled after it (see StoryCut.introMs)
+  tall?: boolean; // full-chat still: the body shows every row unclipped and the canvas grows down to fit it
 }) {
-  const S = settings.hudScalePct / 100;
-  const STYLE = settings.uiStyle || 'IMESSAGE';
+  // HUD settings are in 1080-wide design px: scale them by the canvas short side so 1:1, 4:5 and 16:9 keep the same phone-sized HUD
+  const S = (settings.hudScalePct / 100) * (Math.min(canvas.w, canvas.h) / CANVAS.w);
+  const skin = useMemo(() => themedSkin(skinOf(settings.uiStyle), theme), [settings.uiStyle, theme]);
   const MODE = settings.themeMode || 'DARK';
+  const pal = skin.palette[MODE];
   // derive HUD metrics from settings (uniform scale preserves ratios)
   const baseHUDW = Math.round(CANVAS.w * clamp01(settings.hudWidthPct));
-  const HUD_W = Math.min(CANVAS.w - 24, Math.max(300, Math.round(baseHUDW * S)));
-  const HUD_X = Math.round((CANVAS.w - HUD_W) / 2);
+  const COL_X = Math.round(canvas.w * (column?.x ?? 0)), COL_W = Math.round(canvas.w * (column?.w ?? 1));
+  const HUD_W = Math.min(COL_W - 24, Math.max(300, Math.round(baseHUDW * S)));
+  const HUD_X = COL_X + Math.round((COL_W - HUD_W) / 2);
   const HUD_Y = Math.round(settings.hudY * S);
   const HUD_RADIUS = Math.round(settings.hudRadius * S);
   const HEADER_H = Math.max(40, Math.round(settings.headerH * S));
@@ -146,198 +1106,1859 @@ function FakeTextPreview({
   const BUB_F = Math.round(settings.bubbleFontPx * S);
   const TS_F = Math.round(settings.tsFontPx * S);
 
-  const [playing, setPlaying] = useState(!exportMode);
-  const [t, setT] = useState(0);
-  const raf = useRef<number | null>(null);
-  const startRef = useRef<number | null>(null);
-  const bodyRef = useRef<HTMLDivElement | null>(null); // outer container whose HEIGHT grows
   const measureRef = useRef<HTMLDivElement | null>(null); // inner content to measure true height
-  const [revealH, setRevealH] = useState<number>(Math.max(100, Math.min(300, CHAT_MAX * 0.5)));
-
-  // schedule: one bubble every delay_s seconds (default 3s), compressed by timeScale when >1
-  const schedule = useMemo(() => {
-    const scale = timeScale > 0 ? timeScale : 1;
-    let acc = 0;
-    return messages.map((m) => {
-      const dMs = Math.round(((m.delay_s ?? 3) * 1000) / scale);
-      const at = acc; acc += dMs; return { id: m.id, at };
+  const probeRef = useRef<HTMLDivElement | null>(null); // hidden typing bubble: the height a message replaces
+
+  const schedule = useMemo(() => buildSchedule(messages, timeScale).entries, [messages, timeScale]);
+  const controlled = typeof timeOverrideMs === 'number';
+  // the internal clock is off when time comes from outside (export, StoryPreview)
+  const { timeMs: t, playing, toggle: onTogglePlay, seekRatio: onSeekRatio } = useStoryClock(durationMs, clock, { enabled: !controlled, autoplay: !exportMode, onToggle: onTogglePlayExternal });
+  const clockMs = controlled ? timeOverrideMs : t; // the video's time; the chat's own (timeMs) starts after the intro
+  const introMs = intro ? introLength(intro) : 0;
+  const timeMs = clockMs - introMs;
+  const opening = intro && timeMs < 0 ? easeOutCubic(1 + timeMs / INTRO_EXPAND_MS) : 1; // the chat growing out of the tapped notification
+  const visibleCount = useMemo(() => { let i = 0; while (i < schedule.length && timeMs >= schedule[i].show - 5) i++; return i; }, [timeMs, schedule]);
+  // the next message may be in its typing phase
+  const typingEntry = visibleCount < schedule.length && schedule[visibleCount].typingMs > 0 && timeMs >= schedule[visibleCount].start - 5 ? schedule[visibleCount] : null;
+  // group chats: name on the first bubble of a run, avatar on the first or last (per skin);
+  // flat skins head every run, sent or received, with the speaker's name
+  const isGroup = chat.group && chat.participants.length > 0;
+  const GROUP_AVATAR = Math.round(BUB_F * 1.6);
+  const runKey = (m: Message) => (m.speaker === 'SENDER' ? '' : participantOf(chat, m)?.p.id ?? '-');
+  const groupSender = (i: number, count: number): GroupSender | undefined => {
+    const m = messages[i], who = participantOf(chat, m), flat = skin.flat;
+    const same = (j: number) => j >= 0 && j < count && messages[j].speaker === m.speaker && runKey(messages[j]) === runKey(m);
+    const first = !same(i - 1), last = !same(i + 1);
+    if (flat) {
+      const me = m.speaker === 'SENDER';
+      return { name: me ? flat.me : who ? who.p.name : contactName, avatarUrl: me ? undefined : who ? who.p.avatarUrl : avatarUrl, color: me ? pal.send : who ? participantColor(who.p, who.index) : pal.recv,
+        showName: first, showAvatar: flat.avatars && first, avatarPx: flat.avatars ? GROUP_AVATAR : 0 };
+    }
+    if (!who) return undefined;
+    return { name: who.p.name, avatarUrl: who.p.avatarUrl, color: participantColor(who.p, who.index), showName: first, showAvatar: skin.group.avatar === 'last' ? last : first, avatarPx: GROUP_AVATAR };
+  };
+  const typingWho = typingEntry && isGroup ? participantOf(chat, messages[visibleCount])?.p : undefined;
+
+  // receipts: a line under the last sender bubble, or ticks that propagate back to earlier sender bubbles
+  const lastSenderIdx = useMemo(() => { for (let i = visibleCount - 1; i >= 0; i--) if (messages[i].speaker === 'SENDER') return i; return -1; }, [messages, visibleCount]);
+  const tickStatus = useMemo(() => {
+    const out: ReceiptStatus[] = new Array(visibleCount).fill('sent'); let best: ReceiptStatus = 'sent';
+    for (let i = visibleCount - 1; i >= 0; i--) {
+      const m = messages[i]; if (m.speaker !== 'SENDER') continue;
+      if (m.read_receipt && timeMs >= schedule[i].receiptAt - 5) { const st = receiptStatus(m.read_receipt); if (STATUS_RANK[st] > STATUS_RANK[best]) best = st; }
+      out[i] = best;
+    }
+    return out;
+  }, [messages, schedule, visibleCount, timeMs]);
+
+  // Phone chrome around the chat: status bar above the header; composer (+ keyboard) below the body
+  const STATUS_H = settings.statusBar ? Math.round(44 * S) : 0;
+  const COMPOSER_H = settings.composer ? Math.round(68 * S) : 0;
+  const KEYBOARD_H = settings.composer && settings.keyboard ? Math.round(270 * S) : 0;
+  const TOP_H = STATUS_H + HEADER_H;
+  const draft = settings.composer && settings.composerTyping ? composerDraft(messages, schedule, visibleCount, timeMs) : null;
+  const caretOn = !!draft && Math.floor(timeMs / 500) % 2 === 0;
+  // Each shown row at this moment: entrance, later change, reaction, receipt. Edits swap the text in; unsent and
+  // undelivered bubbles lose their reactions and receipts
+  const rows = messages.slice(0, visibleCount).map((m, i) => {
+    const state = messageState(m, schedule[i], timeMs), live = state !== 'unsent' && state !== 'failed';
+    return {
+      enter: enterStyle(m.enter || settings.enterAnim || 'none', timeMs - schedule[i].show), state,
+      tapback: live && m.tapback && timeMs >= schedule[i].tapbackAt - 5 ? m.tapback : null,
+      receipt: live && skin.receipts === 'line' && i === lastSenderIdx && m.read_receipt && timeMs >= schedule[i].receiptAt - 5 ? m.read_receipt : undefined,
+      ticks: live && skin.receipts === 'ticks' && m.speaker === 'SENDER' ? tickStatus[i] : undefined,
+    };
+  });
+
+  // Chat body: grows with its content up to maxChatH, then older bubbles scroll up. Both are a pure function of the
+  // timeline: the newest row eases in over SCROLL_MS from its arrival, using heights measured from the current DOM.
+  const maxChatH = tall ? Infinity : Math.min(CHAT_MAX, Math.floor(canvas.h * 0.85 - TOP_H - COMPOSER_H - KEYBOARD_H - HUD_Y));
+  const [box, setBox] = useState({ contentH: 0, rowH: 0, lastH: 0, typingH: 0 });
+  useLayoutEffect(() => {
+    const inner = measureRef.current; if (!inner) return;
+    const last = inner.lastElementChild as HTMLElement | null, prev = last?.previousElementSibling as HTMLElement | null;
+    const bottom = (el: HTMLElement | null) => (el ? el.offsetTop + el.offsetHeight : 0);
+    const probe = probeRef.current?.firstElementChild as HTMLElement | null | undefined;
+    const next = { contentH: inner.offsetHeight, rowH: bottom(last) - bottom(prev), lastH: last?.offsetHeight ?? 0, typingH: probe?.offsetHeight ?? box.typingH };
+    if (next.contentH !== box.contentH || next.rowH !== box.rowH || next.lastH !== box.lastH || next.typingH !== box.typingH) setBox(next);
+  });
+  const lastShown = visibleCount > 0 ? schedule[visibleCount - 1] : null;
+  // what arrived last: a typing bubble (a whole new row), or a message (a new row, or swapped in for its typing bubble)
+  const arrival = typingEntry ? { at: typingEntry.start, growth: box.rowH }
+    : lastShown ? { at: lastShown.show, growth: lastShown.typingMs > 0 ? box.lastH - box.typingH : box.rowH } : null;
+  const settle = arrival ? easeOutCubic(clamp01((timeMs - arrival.at) / SCROLL_MS)) : 1;
+  const shownH = box.contentH - (1 - settle) * (arrival?.growth ?? 0);
+  const bodyH = Math.round(Math.max(100, Math.min(shownH, maxChatH)));
+  const scrollY = Math.max(0, shownH - bodyH);
+  // tall stills keep the phone in the top 85% as usual, so the bottom caption still clears it
+  const FRAME_H = tall ? Math.max(canvas.h, Math.ceil((HUD_Y + TOP_H + bodyH + COMPOSER_H + KEYBOARD_H) / 0.85)) : canvas.h;
+
+  // Camera: slow push-in over the story, plus zoom / shake keyframes fired by messages as they appear
+  const pushScale = tall ? 1 : (1 + ((settings.pushInPct || 0) / 100) * clamp01(timeMs / durationMs)) * (0.85 + 0.15 * opening);
+  let zoom = 0, zoomSide: Message['speaker'] = 'SENDER', shake = 0;
+  for (let i = 0; i < visibleCount; i++) {
+    const m = messages[i], dt = timeMs - schedule[i].show;
+    if (m.camera === 'zoom') { const z = zoomAmount(dt); if (z > 0) { zoom = z; zoomSide = m.speaker; } }
+    else if (m.camera === 'shake') shake += shakeAmount(dt);
+  }
+  const camTransform = zoom || shake ? `translateX(${(shake * 18 * S).toFixed(2)}px) scale(${(1 + 0.35 * zoom).toFixed(4)})` : undefined;
+  // zoom toward the newest bubble: bottom of the chat body, on its sender's side
+  const zoomOrigin = `${Math.round(HUD_X + HUD_W * (zoomSide === 'SENDER' ? 0.72 : 0.28))}px ${HUD_Y + TOP_H + bodyH}px`;
+
+  useTimelineAudio(exportMode ? null : audio, playing, clockMs);
+
+  // Painted background: redrawn when it changes, and every frame for video (exports seek the video before setting the time)
+  const bgCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const painted = !!background && background.type !== 'solid';
+  const bgVideo = bgMedia && bgMedia.el instanceof HTMLVideoElement ? bgMedia : null;
+  const videoMs = bgVideo ? Math.round(videoTimeAt(bgVideo, clockMs) * 1000) : 0;
+  useLayoutEffect(() => {
+    const ctx = bgCanvasRef.current?.getContext('2d');
+    if (ctx && background) paintBackground(ctx, background, canvas.w, FRAME_H, bgMedia);
+  }, [background, bgMedia, canvas.w, FRAME_H, bgVideo ? clockMs : 0]);
+  // live preview: let the video play natively, nudging it back when it drifts (seeks/scrubs, pauses)
+  const videoPlaying = controlled ? !!running : playing;
+  useEffect(() => {
+    if (!bgVideo || exportMode) return;
+    const v = bgVideo.el as HTMLVideoElement, want = videoTimeAt(bgVideo, clockMs);
+    if (Math.abs(v.currentTime - want) > 0.25) v.currentTime = want;
+    if (videoPlaying && v.paused) v.play().catch(() => {}); else if (!videoPlaying && !v.paused) v.pause();
+  }, [bgVideo, exportMode, videoPlaying, clockMs]);
+  const captions = background?.captions;
+  // Everything time-driven this frame shows, as a short string: the export stage skips rasterising a frame whose keys
+  // match the previous frame's (see ExportStage.seek). The rest of the frame is fixed for the whole render.
+  // Every value derived from timeMs / clockMs that changes what is drawn MUST be listed here, or exports freeze on it
+  const frameKey = exportMode ? [
+    rows.map((r) => `${r.state ?? ''}/${r.tapback ?? ''}/${r.receipt ?? ''}/${r.ticks ?? ''}/${r.enter ? JSON.stringify(r.enter) : ''}`).join(','),
+    typingEntry ? Math.round(timeMs - typingEntry.start) : '', bodyH, scrollY.toFixed(2), pushScale.toFixed(4), camTransform ?? '', draft ? `${draft.text}/${caretOn}` : '',
+    videoMs, timeMs < 0 ? Math.round(clockMs) : '', endCard && clockMs >= endCard.atMs ? Math.min(250, Math.round(clockMs - endCard.atMs)) : '',
+  ].join('|') : undefined;
+  const CAP_S = Math.min(canvas.w, canvas.h) / CANVAS.w;
+
+  // transport (preview-only)
+  const progress = clamp01(clockMs / durationMs);
+
+  const iconSize = Math.max(ICON, Math.round(ICON * (skin.headerScale?.icon ?? 1)));
+  const avatarDim = Math.max(AVATAR, Math.round(AVATAR * (skin.headerScale?.avatar ?? 1)));
+  const status = isGroup ? (typingWho ? `${typingWho.name} is typing…` : `${chat.participants.map((p) => p.name).join(', ')}, You`) : (typingEntry ? 'typing…' : skin.online);
+  const SkinHeader = skin.Header;
+
+  return (
+    <div data-fk={frameKey} style={{ position: "relative", width: canvas.w, height: FRAME_H, background: bgColor, overflow: "hidden" }}>
+      {painted && (<canvas ref={bgCanvasRef} width={canvas.w} height={FRAME_H} style={{ position: "absolute", inset: 0, width: canvas.w, height: FRAME_H }} />)}
+      {/* Camera (push-in, then zoom/shake) around the HUD */}
+      <div style={{ position: "absolute", inset: 0, transform: pushScale !== 1 ? `scale(${pushScale.toFixed(4)})` : undefined, transformOrigin: `${HUD_X + HUD_W / 2}px ${HUD_Y + (TOP_H + bodyH + COMPOSER_H + KEYBOARD_H) / 2}px` }}>
+      <div style={{ position: "absolute", inset: 0, transform: camTransform, transformOrigin: zoomOrigin }}>
+      {/* HUD */}
+      <div style={{ position: "absolute", left: HUD_X, top: HUD_Y, width: HUD_W, borderRadius: HUD_RADIUS, background: pal.surface, boxShadow: "0 18px 60px rgba(0,0,0,.35)", overflow: "hidden" }}>
+        {STATUS_H > 0 && (<StatusBar h={STATUS_H} S={S} pal={pal} font={skin.font} clock={settings.clock} battery={settings.batteryPct} />)}
+        {/* Header */}
+        <SkinHeader skin={skin} pal={pal} chat={chat} contactName={contactName} avatarUrl={avatarUrl} status={status} live={!!typingEntry || !isGroup}
+          h={HEADER_H} icon={iconSize} avatar={avatarDim} nameF={HEADER_NAME_F} subF={Math.round(12 * S)} gap={HEADER_GAP} padH={HEADER_PAD_H} maxNameW={HUD_W - 2 * (iconSize + 40)} />
+
+        {/* Chat body: HEIGHT grows, then the history scrolls */}
+        <div style={{ position: "relative", height: bodyH, padding: `${Math.round(10*S)}px ${Math.round(14*S)}px ${Math.round(20*S)}px ${Math.round(14*S)}px`, overflow: "hidden", background: pal.surface, pointerEvents: "none", backgroundImage: skin.pattern?.image, backgroundSize: skin.pattern?.size }}>
+          {lastShown && lastShown.typingMs > 0 && !typingEntry && (
+            <div ref={probeRef} style={{ position: "absolute", left: 0, right: 0, top: 0, visibility: "hidden" }}>
+              <TypingBubble elapsedMs={0} r={BUB_R} ph={BUB_PH} pv={BUB_PV} f={BUB_F} skin={skin} mode={MODE} from={groupSender(visibleCount - 1, visibleCount)} />
+            </div>
+          )}
+          <div ref={measureRef} style={{ position: "relative", transform: scrollY ? `translateY(${(-scrollY).toFixed(2)}px)` : undefined }}>
+            {/* Row 0: time separator INSIDE chat */}
+            <div style={{ display: "flex", justifyContent: "center", paddingTop: Math.round(6*S), paddingBottom: Math.round(10*S) }}>
+              <div style={{ fontFamily: skin.font, fontSize: TS_F, fontWeight: 500, color: pal.sub }}>{timeLine}</div>
+            </div>
+            {rows.map((row, i) => {
+              const m = messages[i], { enter, state } = row;
+              return (
+              <div key={m.id} style={enter ? { ...enter, transformOrigin: m.speaker === 'SENDER' ? '100% 100%' : '0% 100%' } : undefined}>
+              <Bubble m={state === 'edited' ? { ...m, text: m.edited_text ?? m.text } : m} maxPct={BUB_MAX_PCT} r={BUB_R} ph={BUB_PH} pv={BUB_PV} f={BUB_F} skin={skin} mode={MODE}
+                tapback={row.tapback} receipt={row.receipt} ticks={row.ticks}
+                surface={pal.surface} receiptColor={pal.sub} receiptF={TS_F} from={groupSender(i, visibleCount + (typingEntry ? 1 : 0))}
+                state={state} who={participantOf(chat, m)?.p.name ?? contactName} />
+              </div>
+              );
+            })}
+            {typingEntry && (
+              <TypingBubble elapsedMs={timeMs - typingEntry.start} r={BUB_R} ph={BUB_PH} pv={BUB_PV} f={BUB_F} skin={skin} mode={MODE} from={groupSender(visibleCount, visibleCount + 1)} />
+            )}
+          </div>
+        </div>
+        {COMPOSER_H > 0 && (<Composer h={COMPOSER_H} S={S} skin={skin} pal={pal} draft={draft ? draft.text : null} caretOn={caretOn} />)}
+        {KEYBOARD_H > 0 && (<PhoneKeyboard h={KEYBOARD_H} S={S} mode={MODE} font={skin.font} pressed={draft?.pressed ?? ''} />)}
+      </div>
+      </div>
+      </div>
+
+      {overlay && (<div style={{ position: "absolute", inset: 0 }}>{overlay}</div>)}
+      {intro && timeMs < 0 && (<IntroScreen intro={intro} ms={clockMs} canvas={canvas} uiStyle={settings.uiStyle} title={chatTitle(chat, contactName)} timeLine={timeLine} />)}
+
+      {/* Caption overlays (outside the HUD, not moved by the camera) */}
+      {captions && (['top', 'bottom'] as const).map((pos) => captions[pos].trim() && (
+        <div key={pos} style={{ position: "absolute", left: "5%", right: "5%", [pos]: Math.round(canvas.h * 0.045), display: "flex", justifyContent: "center", zIndex: 4 }}>
+          <div style={{ fontFamily: FONT, fontWeight: 800, fontSize: Math.round(captions.fontPx * CAP_S), lineHeight: 1.2, textAlign: "center", whiteSpace: "pre-wrap", color: captions.box ? readableOn(captions.color) : captions.color,
+            background: captions.box ? captions.color : undefined, padding: captions.box ? `${Math.round(10 * CAP_S)}px ${Math.round(22 * CAP_S)}px` : undefined, borderRadius: Math.round(14 * CAP_S),
+            textShadow: captions.box ? undefined : "0 2px 8px rgba(0,0,0,.65)" }}>{captions[pos]}</div>
+        </div>
+      ))}
+
+      {/* End card of a split story (fades in over 250ms; time-driven so exports match) */}
+      {endCard && clockMs >= endCard.atMs && (
+        <div style={{ position: "absolute", inset: 0, display: "flex", alignItems: "center", justifyContent: "center", background: "rgba(0,0,0,.55)", opacity: clamp01((clockMs - endCard.atMs) / 250), zIndex: 5 }}>
+          <div style={{ fontFamily: FONT, fontWeight: 800, fontSize: Math.round(72 * S), color: "#FFFFFF", padding: `${Math.round(22 * S)}px ${Math.round(44 * S)}px`, borderRadius: Math.round(40 * S), background: "rgba(255,255,255,.14)", border: "2px solid rgba(255,255,255,.6)", letterSpacing: "-0.5px" }}>{endCard.label}</div>
+        </div>
+      )}
+
+      {/* Transport (outside HUD) */}
+      {!exportMode && !controlled && (
+        <TransportBar progress={progress} durationMs={durationMs} onSeekRatio={onSeekRatio} onTogglePlay={onTogglePlay} />
+      )}
+    </div>
+  );
+}
+
+/** Centred title under the avatar, back on the left and one button on the right (iMessage, Tinder) */
+function CenteredHeader({ skin, pal, chat, contactName, avatarUrl, h, icon, avatar, nameF, maxNameW }: SkinHeaderProps) {
+  const isGroup = chat.group && chat.participants.length > 0;
+  const [label, Icon] = skin.icons[0] ?? [];
+  return (
+    <div style={{ position: "relative", height: h, borderBottom: `1px solid ${pal.border}`, background: pal.header }}>
+      <button aria-label="Back" onClick={() => {}} style={btnStyle({ left: 16, width: icon + 22, height: icon + 22 })}>
+        <ChevronLeft color={pal.icon} size={icon} />
+      </button>
+      {Icon && (
+        <button aria-label={label} onClick={() => {}} style={btnStyle({ right: 16, width: icon + 22, height: icon + 22 })}>
+          <Icon color={pal.icon} size={icon} />
+        </button>
+      )}
+      <div style={{ position: "absolute", inset: 0, display: "flex", alignItems: "center", justifyContent: "center", flexDirection: "column", gap: 6 }}>
+        {isGroup ? (<AvatarStack people={chat.participants} size={Math.round(avatar * 0.85)} ring={pal.header} />) : (<Avatar url={avatarUrl} name={contactName} size={avatar} />)}
+        <div style={{ fontFamily: skin.font, fontWeight: 700, fontSize: Math.max(12, nameF), color: pal.text, letterSpacing: "-0.2px", maxWidth: maxNameW, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+          {isGroup ? (chat.groupName.trim() || `${chat.participants.length + 1} People`) : contactName}{skin.caret && (<> <span style={{marginLeft:6, opacity:.9}}>&rsaquo;</span></>)}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Back, avatar, title + status line on the left, buttons on the right (WhatsApp and most others) */
+function InlineHeader({ skin, pal, chat, contactName, avatarUrl, status, live, h, icon, avatar, nameF, subF, gap, padH }: SkinHeaderProps) {
+  const isGroup = chat.group && chat.participants.length > 0;
+  return (
+    <div style={{ height: h, borderBottom: `1px solid ${pal.border}`, background: pal.header, display: 'flex', alignItems: 'center', gap, padding: `0 ${padH}px` }}>
+      <button aria-label="Back" onClick={() => {}} style={hdrIconBtn}><ChevronLeft color={pal.icon} size={icon} /></button>
+      {isGroup ? (<AvatarStack people={chat.participants} size={Math.round(avatar * 0.8)} ring={pal.header} />) : (<Avatar url={avatarUrl} name={contactName} size={avatar} />)}
+      <div style={{ display:'flex', flexDirection:'column', minWidth: 0 }}>
+        <div style={{ fontFamily: skin.font, fontWeight: 700, fontSize: Math.max(12, nameF), color: pal.text, letterSpacing: "-0.2px", whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis' }}>{isGroup ? groupTitle(chat) : contactName}</div>
+        {status && (
+          <div style={{ fontFamily: skin.font, fontSize: subF, color: live ? pal.accent : pal.sub, marginTop: 2, whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis' }}>{status}</div>
+        )}
+      </div>
+      <div style={{ marginLeft: 'auto', display:'flex', alignItems:'center', gap: 8 }}>
+        {skin.icons.map(([label, Icon]) => (<button key={label} aria-label={label} onClick={() => {}} style={hdrIconBtn}><Icon color={pal.icon} size={icon} /></button>))}
+      </div>
+    </div>
+  );
+}
+
+const FAILED_RED = '#FF3B30';
+
+type GroupSender = { name: string; avatarUrl?: string; color: string; showName: boolean; showAvatar: boolean; avatarPx: number };
+
+function Bubble({ m, maxPct, r, ph, pv, f, skin, mode, tapback, receipt, ticks, surface, receiptColor, receiptF, from, state, who }: { m: Message; maxPct: number; r: number; ph: number; pv: number; f: number; skin: Skin; mode: ThemeMode; tapback?: string | null; receipt?: string; ticks?: ReceiptStatus; surface: string; receiptColor: string; receiptF: number; from?: GroupSender; state?: MessageState; who?: string }) {
+  const pal = skin.palette[mode];
+  const flat = skin.flat;
+  const isSender = m.speaker === "SENDER";
+  // Unsent: a centred notice in place of the bubble, or a "deleted" placeholder bubble (per skin)
+  if (state === 'unsent' && skin.unsentNotice) {
+    return (<div style={{ marginTop: 12, textAlign: "center", fontFamily: skin.font, fontSize: receiptF, color: receiptColor }}>{isSender ? 'You' : who || 'They'} unsent a message</div>);
+  }
+  const deleted = state === 'unsent';
+  const failed = state === 'failed';
+  // "Edited" sits beside the ticks (tick skins) or the text (flat skins), else on its own line under the bubble
+  const edited = state === 'edited', inlineEdit = !!flat || skin.receipts === 'ticks';
+  const align = isSender && !flat ? "flex-end" : "flex-start";
+  const bg = isSender ? pal.send : pal.recv;
+  const fg = isSender && !flat ? pal.sendText : pal.text;
+  const radiusCss = skin.radius(r, isSender);
+  const glyph = tapback ? (skin.glyphs as Record<string, string>)[tapback] : undefined;
+  const badgeGlyph = glyph && skin.reactions === 'badge', chipGlyph = glyph && skin.reactions === 'chip';
+  // Badges sit on the inner top corner; chips hang off the bottom edge
+  const badge = Math.round(f * 1.55);
+  const chipH = Math.round(f * 1.3);
+  // Non-text kinds: stickers (and photos, per skin) drop the bubble; link cards use the card colour
+  const kind = deleted ? 'text' : m.kind || 'text';
+  const card = kind === 'link' && skin.linkCards;
+  const bare = !card && (!!flat || kind === 'sticker' || (kind === 'photo' && skin.barePhotos));
+  const bubbleBg = card ? pal.card || pal.recv : bare ? 'transparent' : bg;
+  const bubbleFg = card ? pal.text : fg;
+  const tight = !bare && !card && (kind === 'photo' || kind === 'link');
+  const padding = card ? 0 : bare ? (flat ? `${Math.round(pv * 0.2)}px 0` : 0) : tight ? Math.max(3, Math.round(pv * 0.35)) : `${pv}px ${ph}px`;
+  const bar = flat?.bar && from ? { borderLeft: `${Math.max(2, Math.round(f * 0.12))}px solid ${from.color}`, paddingLeft: Math.round(ph * 0.6) } : undefined;
+  const bubble = (
+    <div style={{ position: "relative", maxWidth: pct(maxPct), background: bubbleBg, color: bubbleFg, padding, borderRadius: radiusCss as any, fontFamily: skin.font, fontSize: f, lineHeight: 1.25, whiteSpace: "pre-wrap", boxShadow: !bare && isSender && skin.sendShadow || "none", backgroundClip: 'padding-box', overflow: card ? "hidden" : undefined }}>
+      {from?.showName && !flat && skin.group.names === 'inside' && (<div style={{ fontWeight: 600, fontSize: Math.round(f * 0.82), color: from.color, marginBottom: Math.round(pv * 0.3), padding: tight ? `${Math.round(pv * 0.4)}px ${Math.round(ph * 0.6)}px 0` : undefined }}>{from.name}</div>)}
+      {deleted ? (<span style={{ fontStyle: "italic", opacity: 0.7 }}>🚫 {isSender ? 'You deleted this message' : 'This message was deleted'}</span>) : (<MessageBody m={m} kind={kind} skin={skin} mode={mode} f={f} r={r} ph={ph} pv={pv} fg={bubbleFg} isSender={isSender} />)}
+      {edited && inlineEdit && (<span style={{ marginLeft: Math.round(f * 0.4), fontSize: Math.round(f * 0.7), opacity: 0.6 }}>{flat ? '(edited)' : 'Edited'}</span>)}
+      {ticks && (<span style={{ display: "inline-block", marginLeft: Math.round(f * 0.4), verticalAlign: "bottom" }}><Ticks status={ticks} size={Math.round(f * 0.8)} /></span>)}
+      {badgeGlyph && (
+        <div style={{ position: "absolute", top: -Math.round(badge * 0.6), [isSender ? "left" : "right"]: -Math.round(badge * 0.35), width: badge, height: badge, borderRadius: badge / 2, background: isSender ? (mode === 'DARK' ? '#3A3A3C' : '#D1D1D6') : pal.accent, border: `${Math.max(2, Math.round(f * 0.12))}px solid ${surface}`, color: isSender ? (mode === 'DARK' ? '#E5E5EA' : '#6B7280') : '#FFFFFF', display: "flex", alignItems: "center", justifyContent: "center", fontFamily: skin.font, fontWeight: 800, fontSize: tapback === 'laugh' ? Math.round(badge * 0.28) : Math.round(badge * 0.5), lineHeight: 1, whiteSpace: "nowrap" }}>{glyph}</div>
+      )}
+      {chipGlyph && (
+        <div style={{ position: "absolute", bottom: -Math.round(chipH * 0.75), [isSender ? "right" : "left"]: Math.round(ph * 0.5), height: chipH, minWidth: chipH, padding: `0 ${Math.round(chipH * 0.2)}px`, borderRadius: chipH / 2, background: pal.header, border: `${Math.max(2, Math.round(f * 0.1))}px solid ${surface}`, display: "flex", alignItems: "center", justifyContent: "center", fontSize: Math.round(chipH * 0.62), lineHeight: 1 }}>{glyph}</div>
+      )}
+    </div>
+  );
+  const bang = (<div style={{ flexShrink: 0, width: Math.round(f * 1.1), height: Math.round(f * 1.1), borderRadius: "50%", background: FAILED_RED, color: "#FFFFFF", display: "flex", alignItems: "center", justifyContent: "center", fontFamily: skin.font, fontWeight: 800, fontSize: Math.round(f * 0.75), lineHeight: 1 }}>!</div>);
+  const column = (
+    <div style={{ display: "flex", flexDirection: "column", alignItems: align, flex: from ? 1 : undefined, minWidth: 0, ...bar }}>
+      {from?.showName && flat && (<div style={{ fontFamily: skin.font, fontWeight: 700, fontSize: Math.round(f * 0.8), color: from.color, letterSpacing: flat.upper ? "0.4px" : undefined }}>{flat.upper ? from.name.toUpperCase() : from.name}</div>)}
+      {from?.showName && !flat && skin.group.names === 'above' && (<div style={{ margin: `0 0 ${badgeGlyph ? Math.round(badge * 0.55) : 2}px ${Math.round(r * 0.6)}px`, fontFamily: skin.font, fontSize: receiptF, color: receiptColor }}>{from.name}</div>)}
+      {failed ? (<div style={{ display: "flex", alignItems: "center", justifyContent: align, gap: Math.round(f * 0.4), width: "100%" }}>{bubble}{bang}</div>) : bubble}
+      {kind === 'photo' && skin.barePhotos && !flat && m.text.trim() && (
+        <div style={{ marginTop: 4, maxWidth: pct(maxPct), background: bg, color: fg, padding: `${pv}px ${ph}px`, borderRadius: radiusCss as any, fontFamily: skin.font, fontSize: f, lineHeight: 1.25, whiteSpace: "pre-wrap" }}>{m.text}</div>
+      )}
+      {edited && !inlineEdit && (<div style={{ marginTop: 4, fontFamily: skin.font, fontSize: receiptF, fontWeight: 500, color: pal.accent }}>Edited</div>)}
+      {failed && (<div style={{ marginTop: 4, fontFamily: skin.font, fontSize: receiptF, fontWeight: 500, color: FAILED_RED }}>Not Delivered</div>)}
+      {receipt && (<div style={{ marginTop: 4, fontFamily: skin.font, fontSize: receiptF, fontWeight: 500, color: receiptColor }}>{receipt}</div>)}
+    </div>
+  );
+  // flat runs sit tight under their name; bubbles keep a 12px gap
+  const outer = { marginTop: (flat && !from?.showName ? 0 : 12) + (badgeGlyph && !from?.showName ? Math.round(badge * 0.55) : 0), marginBottom: chipGlyph ? Math.round(chipH * 0.7) : 0 };
+  if (!from) return <div style={outer}>{column}</div>;
+  // Avatar gutter: the face sits beside the last bubble of a run, or the first (per skin; flat skins always the first)
+  const atEnd = !flat && skin.group.avatar === 'last';
+  return (
+    <div style={{ ...outer, display: "flex", alignItems: atEnd ? "flex-end" : "flex-start", gap: Math.round(from.avatarPx * 0.25) }}>
+      <div style={{ width: from.avatarPx, flexShrink: 0, marginBottom: atEnd && receipt ? receiptF + 4 : 0 }}>
+        {from.showAvatar && (<Avatar url={from.avatarUrl} name={from.name} size={from.avatarPx} />)}
+      </div>
+      {column}
+    </div>
+  );
+}
+
+/**
+ * Content inside a bubble per message kind. Images are CSS backgrounds (background-size is honoured by
+ * html2canvas, object-fit is not) so exported frames crop exactly like the preview.
+ */
+function MessageBody({ m, kind, skin, mode, f, r, ph, pv, fg, isSender }: { m: Message; kind: MessageKind; skin: Skin; mode: ThemeMode; f: number; r: number; ph: number; pv: number; fg: string; isSender: boolean }) {
+  const mediaW = Math.round(f * 12);
+  const placeholder = mode === 'DARK' ? '#3A3A3C' : '#D1D1D6';
+  const img = (url: string | undefined, w: number, h: number, radius: number | string): React.ReactNode => (
+    <div style={{ width: w, height: h, borderRadius: radius as any, background: url ? `center / cover no-repeat url("${url}")` : placeholder }} />
+  );
+  if (kind === 'photo') {
+    const ratio = m.media_w && m.media_h ? Math.min(1.5, Math.max(0.5, m.media_h / m.media_w)) : 0.75;
+    const inner = skin.barePhotos ? r : Math.max(4, Math.round(r * 0.7));
+    return (
+      <div>
+        {img(m.media_url, mediaW, Math.round(mediaW * ratio), inner)}
+        {!skin.barePhotos && m.text.trim() && (<div style={{ maxWidth: mediaW, padding: `${Math.round(pv * 0.5)}px ${Math.round(ph * 0.5)}px ${Math.round(pv * 0.2)}px` }}>{m.text}</div>)}
+      </div>
+    );
+  }
+  if (kind === 'voice') {
+    const bars = 28;
+    const { wave, play } = skin.palette[mode];
+    const accent = wave || fg;
+    const dur = Math.max(1, Math.round(m.voice_s ?? 5));
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: Math.round(f * 0.45), minWidth: Math.round(f * 9) }}>
+        <svg width={Math.round(f * 1.1)} height={Math.round(f * 1.1)} viewBox="0 0 24 24" aria-hidden="true"><path d="M7 4.5v15l13-7.5z" fill={play && !isSender ? play : accent} /></svg>
+        <div style={{ display: "flex", alignItems: "center", gap: Math.max(1, Math.round(f * 0.1)), height: Math.round(f * 1.4) }}>
+          {Array.from({ length: bars }, (_, i) => (
+            <div key={i} style={{ width: Math.max(2, Math.round(f * 0.13)), height: `${Math.round(22 + 78 * hash01(m.id, i))}%`, borderRadius: 2, background: accent, opacity: wave ? 1 : 0.85 }} />
+          ))}
+        </div>
+        <div style={{ fontSize: Math.round(f * 0.7), opacity: 0.8, fontVariantNumeric: "tabular-nums" }}>{fmt(dur * 1000)}</div>
+      </div>
+    );
+  }
+  if (kind === 'link') {
+    const url = m.link_url || '';
+    const title = m.link_title || hostOf(url) || 'Link';
+    if (skin.linkCards) {
+      return (
+        <div style={{ width: Math.round(mediaW * 1.15) }}>
+          {m.link_image && img(m.link_image, Math.round(mediaW * 1.15), Math.round(mediaW * 0.6), 0)}
+          <div style={{ padding: `${Math.round(pv * 0.8)}px ${ph}px` }}>
+            <div style={{ fontWeight: 600, fontSize: Math.round(f * 0.82), lineHeight: 1.2 }}>{title}</div>
+            <div style={{ fontSize: Math.round(f * 0.68), opacity: 0.6, marginTop: 2 }}>{hostOf(url)}</div>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <div style={{ width: Math.round(mediaW * 1.15) }}>
+        <div style={{ borderRadius: Math.max(4, Math.round(r * 0.5)), overflow: "hidden", background: mode === 'DARK' ? 'rgba(0,0,0,.22)' : 'rgba(0,0,0,.05)' }}>
+          {m.link_image && img(m.link_image, Math.round(mediaW * 1.15), Math.round(mediaW * 0.6), 0)}
+          <div style={{ padding: `${Math.round(pv * 0.6)}px ${Math.round(ph * 0.6)}px` }}>
+            <div style={{ fontWeight: 600, fontSize: Math.round(f * 0.78) }}>{title}</div>
+            {m.link_desc && (<div style={{ fontSize: Math.round(f * 0.66), opacity: 0.75, marginTop: 2 }}>{m.link_desc}</div>)}
+            <div style={{ fontSize: Math.round(f * 0.62), opacity: 0.55, marginTop: 2 }}>{hostOf(url)}</div>
+          </div>
+        </div>
+        <div style={{ padding: `${Math.round(pv * 0.5)}px ${Math.round(ph * 0.5)}px ${Math.round(pv * 0.2)}px`, color: '#53BDEB', wordBreak: "break-all" }}>{url}</div>
+        {m.text.trim() && (<div style={{ padding: `0 ${Math.round(ph * 0.5)}px ${Math.round(pv * 0.2)}px` }}>{m.text}</div>)}
+      </div>
+    );
+  }
+  if (kind === 'sticker') {
+    const size = Math.round(f * 6.5);
+    return m.media_url
+      ? (<div style={{ width: size, height: size, background: `center / contain no-repeat url("${m.media_url}")` }} />)
+      : (<div style={{ fontSize: Math.round(f * 3.2), lineHeight: 1.1 }}>{m.text}</div>);
+  }
+  return <>{m.text}</>;
+}
+
+function Avatar({ url, name, size, ring }: { url?: string; name: string; size: number; ring?: string }) {
+  return (
+    <div style={{ width: size, height: size, borderRadius: size / 2, overflow: "hidden", background: "#C7C7CC", color: "#FFFFFF", display: "flex", alignItems: "center", justifyContent: "center", fontWeight: 600, fontFamily: FONT, fontSize: Math.round(size * 0.42), flexShrink: 0, boxSizing: "border-box", border: ring ? `${Math.max(2, Math.round(size * 0.06))}px solid ${ring}` : undefined }}>
+      {url ? (<img src={url} alt="" style={{ width: "100%", height: "100%", objectFit: "cover", borderRadius: '50%' }} />) : (initials(name))}
+    </div>
+  );
+}
+
+/** Up to three overlapping faces for group headers */
+function AvatarStack({ people, size, ring }: { people: Participant[]; size: number; ring: string }) {
+  const shown = people.slice(0, 3);
+  return (
+    <div style={{ display: "flex", alignItems: "center", flexShrink: 0 }}>
+      {shown.map((p, i) => (<div key={p.id} style={{ marginLeft: i ? -Math.round(size * 0.38) : 0, zIndex: shown.length - i }}><Avatar url={p.avatarUrl} name={p.name} size={size} ring={ring} /></div>))}
+    </div>
+  );
+}
+
+/** Receiver "…" bubble. Dot motion is a pure function of elapsed timeline time so export frames match the preview. */
+function TypingBubble({ elapsedMs, r, ph, pv, f, skin, mode, from }: { elapsedMs: number; r: number; ph: number; pv: number; f: number; skin: Skin; mode: ThemeMode; from?: GroupSender }) {
+  const bg = skin.flat ? 'transparent' : skin.palette[mode].recv;
+  const dotColor = mode === 'DARK' ? '#8E8E93' : '#8A8A8F';
+  const dot = Math.max(6, Math.round(f * 0.42));
+  const CYCLE_MS = 1200;
+  return (
+    <div style={{ display: "flex", justifyContent: "flex-start", alignItems: "flex-end", gap: from ? Math.round(from.avatarPx * 0.25) : 0, marginTop: 12 }}>
+      {from && (<div style={{ width: from.avatarPx, flexShrink: 0 }}>{from.showAvatar && (<Avatar url={from.avatarUrl} name={from.name} size={from.avatarPx} />)}</div>)}
+      <div style={{ display: "flex", alignItems: "center", gap: Math.round(dot * 0.55), height: Math.round(f * 1.25), background: bg, padding: `${pv}px ${Math.round(ph * 1.1)}px`, borderRadius: skin.radius(r, false), boxSizing: "content-box" }}>
+        {[0, 1, 2].map((i) => {
+          const phase = ((Math.max(0, elapsedMs) / CYCLE_MS) - i * 0.18) * Math.PI * 2;
+          const v = 0.5 + 0.5 * Math.sin(phase);
+          return <div key={i} style={{ width: dot, height: dot, borderRadius: dot / 2, background: dotColor, opacity: 0.35 + 0.65 * v, transform: `translateY(${(-v * dot * 0.35).toFixed(2)}px)` }} />;
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** WhatsApp delivery ticks: one grey (sent), two grey (delivered), two blue (read) */
+function Ticks({ status, size }: { status: ReceiptStatus; size: number }) {
+  const color = status === 'read' ? '#53BDEB' : '#8696A0';
+  return (
+    <svg width={Math.round(size * 1.3)} height={size} viewBox="0 0 21 16" fill="none" aria-hidden="true">
+      <path d="M1.5 8.5l4 4 8-9" stroke={color} strokeWidth="1.8" strokeLinecap="round" strokeLinejoin="round" />
+      {status !== 'sent' && (<path d="M9.5 11.5l1 1 8-9" stroke={color} strokeWidth="1.8" strokeLinecap="round" strokeLinejoin="round" />)}
+    </svg>
+  );
+}
+
+/** Phone status bar: clock on the left; signal, Wi-Fi and battery on the right */
+function StatusBar({ h, S, pal, font, clock, battery }: { h: number; S: number; pal: SkinPalette; font: string; clock: string; battery: number }) {
+  const c = pal.text, u = Math.round(15 * S), level = clamp01(battery / 100);
+  return (
+    <div style={{ height: h, background: pal.header, display: "flex", alignItems: "center", justifyContent: "space-between", padding: `0 ${Math.round(26 * S)}px`, fontFamily: font, fontWeight: 600, fontSize: Math.round(17 * S), color: c }}>
+      <span style={{ fontVariantNumeric: "tabular-nums" }}>{clock}</span>
+      <div style={{ display: "flex", alignItems: "center", gap: Math.round(7 * S) }}>
+        <svg width={Math.round(u * 1.15)} height={u} viewBox="0 0 18 16" aria-hidden="true">{[0, 1, 2, 3].map((i) => (<rect key={i} x={i * 4.8} y={12 - i * 3.6} width="3.4" height={4 + i * 3.6} rx="0.9" fill={c} />))}</svg>
+        <svg width={Math.round(u * 1.3)} height={u} viewBox="0 0 24 18" fill="none" stroke={c} strokeWidth="2.6" strokeLinecap="round" aria-hidden="true"><path d="M2.5 6.5a14 14 0 0 1 19 0" /><path d="M6 10.3a9 9 0 0 1 12 0" /><path d="M9.6 14a4 4 0 0 1 4.8 0" /></svg>
+        <div style={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <div style={{ width: Math.round(27 * S), height: Math.round(13 * S), borderRadius: Math.round(4 * S), border: `${Math.max(1, Math.round(1.4 * S))}px solid ${c}`, padding: Math.max(1, Math.round(1.4 * S)), boxSizing: "border-box" }}>
+            <div style={{ width: pct(level), height: "100%", borderRadius: Math.round(2 * S), background: level <= 0.2 ? '#FF3B30' : c }} />
+          </div>
+          <div style={{ width: Math.max(1, Math.round(2 * S)), height: Math.round(5 * S), borderRadius: 1, background: c, opacity: 0.6 }} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Message field under the chat. `draft` is what's been typed so far (null when idle); long drafts keep their tail in view. */
+function Composer({ h, S, skin, pal, draft, caretOn }: { h: number; S: number; skin: Skin; pal: SkinPalette; draft: string | null; caretOn: boolean }) {
+  const f = Math.round(20 * S), field = Math.round(44 * S), btnD = Math.round(36 * S);
+  const caret = draft != null && (<span style={{ display: "inline-block", width: Math.max(2, Math.round(2 * S)), height: Math.round(f * 1.15), marginLeft: 1, verticalAlign: "middle", background: pal.accent, opacity: caretOn ? 1 : 0 }} />);
+  return (
+    <div style={{ height: h, background: pal.header, borderTop: `1px solid ${pal.border}`, display: "flex", alignItems: "center", gap: Math.round(10 * S), padding: `0 ${Math.round(14 * S)}px`, boxSizing: "border-box" }}>
+      <div style={{ width: btnD, height: btnD, borderRadius: btnD / 2, flexShrink: 0, background: pal.recv, color: pal.icon, display: "flex", alignItems: "center", justifyContent: "center", fontFamily: skin.font, fontSize: Math.round(btnD * 0.7), lineHeight: 1 }}>+</div>
+      <div style={{ flex: 1, minWidth: 0, height: field, borderRadius: field / 2, border: `1px solid ${pal.border}`, background: pal.surface, display: "flex", alignItems: "center", padding: `0 ${Math.round(16 * S)}px`, boxSizing: "border-box", overflow: "hidden" }}>
+        <div style={{ flex: 1, minWidth: 0, display: "flex", justifyContent: "flex-end", overflow: "hidden" }}>
+          <span style={{ flexShrink: 0, minWidth: "100%", whiteSpace: "pre", fontFamily: skin.font, fontSize: f, color: draft ? pal.text : pal.sub }}>
+            {draft ? (<>{draft}{caret}</>) : (<>{caret}{skin.placeholder}</>)}
+          </span>
+        </div>
+      </div>
+      {draft ? (
+        <div style={{ width: btnD, height: btnD, borderRadius: btnD / 2, flexShrink: 0, background: pal.send, display: "flex", alignItems: "center", justifyContent: "center" }}>
+          <svg width={Math.round(btnD * 0.55)} height={Math.round(btnD * 0.55)} viewBox="0 0 24 24" fill="none" stroke={pal.sendText} strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true"><path d="M12 20V4M5 11l7-7 7 7" /></svg>
+        </div>
+      ) : (
+        <svg width={btnD} height={btnD} viewBox="0 0 24 24" fill="none" stroke={pal.icon} strokeWidth="2" strokeLinecap="round" aria-hidden="true" style={{ flexShrink: 0 }}><rect x="9" y="3" width="6" height="11" rx="3" /><path d="M5.5 11a6.5 6.5 0 0 0 13 0M12 17.5V21" /></svg>
+      )}
+    </div>
+  );
+}
+
+const KEY_ROWS = ['QWERTYUIOP', 'ASDFGHJKL', 'ZXCVBNM'];
+/** On-screen keyboard; the key for the character just typed into the composer is lit */
+function PhoneKeyboard({ h, S, mode, font, pressed }: { h: number; S: number; mode: ThemeMode; font: string; pressed: string }) {
+  const dark = mode === 'DARK';
+  const bg = dark ? '#2B2B2D' : '#D1D3D9', keyBg = dark ? '#6B6B6F' : '#FFFFFF', modBg = dark ? '#46464A' : '#ABB0BA', lit = dark ? '#9A9AA0' : '#B4BAC4', fg = dark ? '#FFFFFF' : '#111111';
+  const pad = Math.round(8 * S), gap = Math.round(11 * S), inset = Math.round(22 * S);
+  const keyH = Math.max(8, Math.round((h - 2 * pad - 3 * gap - inset) / 4));
+  const key = (id: string, label: string, flex: number, background: string) => (
+    <div key={id} style={{ flex, height: keyH, borderRadius: Math.round(7 * S), background: id === pressed ? lit : background, boxShadow: `0 ${Math.max(1, Math.round(1.5 * S))}px 0 rgba(0,0,0,${dark ? 0.45 : 0.3})`, display: "flex", alignItems: "center", justifyContent: "center", fontFamily: font, fontSize: label.length > 1 ? Math.round(16 * S) : Math.round(23 * S), color: fg }}>{label}</div>
+  );
+  const spacer = (id: string, flex: number) => <div key={id} style={{ flex }} />;
+  const row = (children: React.ReactNode[]) => <div style={{ display: "flex", gap: Math.round(6 * S) }}>{children}</div>;
+  return (
+    <div style={{ height: h, background: bg, padding: `${pad}px ${Math.round(4 * S)}px ${pad + inset}px`, boxSizing: "border-box", display: "flex", flexDirection: "column", gap }}>
+      {row(Array.from(KEY_ROWS[0], (c) => key(c, c, 1, keyBg)))}
+      {row([spacer('l', 0.5), ...Array.from(KEY_ROWS[1], (c) => key(c, c, 1, keyBg)), spacer('r', 0.5)])}
+      {row([key('shift', '⇧', 1.4, modBg), spacer('l', 0.15), ...Array.from(KEY_ROWS[2], (c) => key(c, c, 1, keyBg)), spacer('r', 0.15), key('back', '⌫', 1.4, modBg)])}
+      {row([key('123', '123', 2.4, modBg), key(' ', 'space', 7.2, keyBg), key('return', 'return', 2.4, modBg)])}
+    </div>
+  );
+}
+
+function TransportBar({ progress, durationMs, onSeekRatio, onTogglePlay }: any) {
+  const barRef = useRef<HTMLDivElement | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
+  const seekFromEvent = (e: MouseEvent | any) => { const bar = barRef.current; if (!bar) return 0; const rect = bar.getBoundingClientRect(); const ratio = clamp01((e.clientX - rect.left) / rect.width); onSeekRatio(ratio); return ratio; };
+  useEffect(() => { if (!dragging) return; const move = (e: MouseEvent) => seekFromEvent(e); const up = () => setDragging(false); window.addEventListener("mousemove", move as any); window.addEventListener("mouseup", up as any, { once: true } as any); return () => { window.removeEventListener("mousemove", move as any); window.removeEventListener("mouseup", up as any); }; }, [dragging]);
+  return (
+    <div style={{ position: "absolute", left: 24, right: 24, bottom: 24, display: "flex", alignItems: "center", gap: 20, padding: "16px 22px", borderRadius: 20, background: "rgba(0,0,0,.55)", boxShadow: "0 8px 22px rgba(0,0,0,.35)", zIndex: 10, backdropFilter: "saturate(180%) blur(10px)" }}>
+      <button aria-label="Play/Pause" onClick={onTogglePlay} style={transportBtn}><PlayPauseIcon /></button>
+      <div style={{ color: "#FFF", fontFamily: FONT, fontSize: 20, minWidth: 64, textAlign: "right" }}>{fmt(progress * durationMs)}</div>
+      <div ref={barRef} role="slider" tabIndex={0}
+        onKeyDown={(e)=>{ if(e.key==="ArrowRight") onSeekRatio(clamp01(progress+0.02)); if(e.key==="ArrowLeft") onSeekRatio(clamp01(progress-0.02)); }}
+        onMouseDown={(e)=>{ setDragging(true); const r = seekFromEvent(e.nativeEvent || e); setHoverRatio(r); }}
+        onMouseMove={(e)=>{ const bar = barRef.current; if(!bar) return; const rect = bar.getBoundingClientRect(); const r = clamp01(((e.nativeEvent||e).clientX - rect.left)/rect.width); setHoverRatio(r); }}
+        onMouseLeave={()=>setHoverRatio(null)}
+        style={{ flex: 1, height: 24, borderRadius: 12, background: "rgba(255,255,255,.22)", position: "relative", cursor: "pointer" }}>
+        <div style={{ position: "absolute", left: 0, top: 0, bottom: 0, width: pct(progress), background: "#FFFFFF", borderRadius: 10 }}/>
+        {hoverRatio!==null && (<div style={{ position: "absolute", top: -28, left: pct(hoverRatio), transform: "translateX(-50%)", background: "rgba(0,0,0,.75)", color: "#FFF", padding: "2px 6px", borderRadius: 6, fontSize: 12, pointerEvents: "none" }}>{fmt(hoverRatio*durationMs)}</div>)}
+        <div style={{ position: "absolute", top: "50%", left: calcPctOffset(progress, 10), width: 20, height: 20, transform: "translateY(-50%)", borderRadius: 10, background: "#FFFFFF", boxShadow: "0 1px 3px rgba(0,0,0,.35)" }}/>
+      </div>
+      <div style={{ color: "#FFF", fontFamily: FONT, fontSize: 20, minWidth: 56, textAlign: "left" }}>{fmt(durationMs)}</div>
+    </div>
+  );
+}
+
+// ---------------- Audio (message sounds + background music) ----------------
+export type MusicTrack = { dataUrl: string; name: string; volume: number; fadeOutS: number; duck: boolean };
+export type AudioSettings = { messageSounds: boolean; soundVolume: number; music?: MusicTrack; narration: NarrationSettings };
+const DEFAULT_AUDIO: AudioSettings = { messageSounds: true, soundVolume: 0.8, narration: { enabled: false, provider: 'espeak', volume: 1, voices: {} } };
+const AUDIO_SR = 48000;
+const NARRATION_MAX_RATE = 1.15; // faster than this and a sped-up voice audibly changes pitch
+
+/** data: URL → bytes without fetch (works for any MIME type) */
+function dataUrlToBytes(url: string): Uint8Array {
+  const comma = url.indexOf(',');
+  const meta = url.slice(0, comma), body = url.slice(comma + 1);
+  if (!/;base64$/i.test(meta)) return new TextEncoder().encode(decodeURIComponent(body));
+  const bin = atob(body); const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+/** Synthesised UI sounds (no assets): a filtered-noise "whoosh" for sent and a two-note "ding" for received. Deterministic. */
+function synthMessageSound(kind: 'send' | 'receive', sr = AUDIO_SR): Float32Array {
+  if (kind === 'send') {
+    const n = Math.round(sr * 0.32); const out = new Float32Array(n); let lp = 0, seed = 1;
+    for (let i = 0; i < n; i++) {
+      const x = i / n;
+      seed = (seed * 1664525 + 1013904223) >>> 0; const noise = seed / 2147483648 - 1;
+      const cutoff = 0.02 + 0.25 * Math.sin(Math.PI * x); lp += cutoff * (noise - lp);
+      const swoop = Math.sin(2 * Math.PI * (300 * x + 900 * x * x) * (n / sr)) * 0.25;
+      out[i] = (lp * 1.6 + swoop) * Math.sin(Math.PI * x) ** 1.5 * 0.6;
+    }
+    return out;
+  }
+  const n = Math.round(sr * 0.7); const out = new Float32Array(n);
+  const note = (f0: number, startS: number, i: number) => { const t = i / sr - startS; return t < 0 ? 0 : (Math.sin(2 * Math.PI * f0 * t) + 0.3 * Math.sin(4 * Math.PI * f0 * t)) * Math.exp(-t * 7) * Math.min(1, t * 400); };
+  for (let i = 0; i < n; i++) out[i] = (note(1318.5, 0, i) + note(1760, 0.09, i)) * 0.28;
+  return out;
+}
+
+const decodedMusic = new Map<string, AudioBuffer>();
+async function decodeMusic(ctx: BaseAudioContext, dataUrl: string): Promise<AudioBuffer> {
+  const hit = decodedMusic.get(dataUrl); if (hit) return hit;
+  const bytes = dataUrlToBytes(dataUrl);
+  const buf = await ctx.decodeAudioData(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  decodedMusic.clear(); decodedMusic.set(dataUrl, buf);
+  return buf;
+}
+
+/**
+ * Offline mix of the whole story: a sound at each bubble's scheduled (time-scaled) show time, narration clips from the
+ * same instants, plus looping music with volume, ducking under sounds/voices and a fade-out. The same buffer plays in
+ * preview and is muxed on export. Pass a story cut of the narration-timed messages (see narrateScenes) together with the clips.
+ */
+async function renderStoryAudio({ messages, timeScale, totalMs, intro, introMs }: StoryCut, audio: AudioSettings, narration: NarrationClip[] = []): Promise<AudioBuffer | null> {
+  if (!audio.messageSounds && !audio.music && !narration.length) return null;
+  const totalS = totalMs / 1000, leadS = introMs / 1000;
+  const ctx = new OfflineAudioContext(2, Math.ceil(totalS * AUDIO_SR), AUDIO_SR);
+  const schedule = buildSchedule(messages, timeScale).entries;
+  // intro notifications chime like received messages
+  const events: Array<{ t: number; kind: 'send' | 'receive' }> = [
+    ...(intro?.notifications ?? []).filter((n) => n.at_s < leadS).map((n) => ({ t: n.at_s, kind: 'receive' as const })),
+    ...schedule.map((e, i) => ({ t: leadS + e.show / 1000, kind: messages[i].speaker === 'SENDER' ? 'send' as const : 'receive' as const })),
+  ].filter((e) => e.t < totalS);
+  const duck: Array<[number, number]> = []; // spans the music dips under
+  if (audio.messageSounds) {
+    const sounds = { send: synthMessageSound('send'), receive: synthMessageSound('receive') };
+    const bufs = Object.fromEntries(Object.entries(sounds).map(([k, pcm]) => { const b = ctx.createBuffer(1, pcm.length, AUDIO_SR); b.getChannelData(0).set(pcm); return [k, b]; })) as Record<'send' | 'receive', AudioBuffer>;
+    const g = ctx.createGain(); g.gain.value = clamp01(audio.soundVolume); g.connect(ctx.destination);
+    for (const e of events) { const src = ctx.createBufferSource(); src.buffer = bufs[e.kind]; src.connect(g); src.start(e.t); duck.push([e.t, e.t + 0.45]); }
+  }
+  if (narration.length) {
+    // Clips speed up with the timeline's compression, but only to NARRATION_MAX_RATE (playbackRate shifts pitch too):
+    // past that a line runs on over the start of the next message's slot
+    const showAt = new Map(schedule.map((e) => [e.id, leadS + e.show / 1000]));
+    const g = ctx.createGain(); g.gain.value = clamp01(audio.narration.volume); g.connect(ctx.destination);
+    const rate = Math.min(timeScale, NARRATION_MAX_RATE);
+    for (const c of narration) {
+      const t = showAt.get(c.id); if (t === undefined || t >= totalS) continue;
+      const b = ctx.createBuffer(1, c.pcm.length, c.sampleRate); b.getChannelData(0).set(c.pcm);
+      const src = ctx.createBufferSource(); src.buffer = b; src.playbackRate.value = rate; src.connect(g); src.start(t);
+      duck.push([t, t + c.seconds / rate]);
+    }
+  }
+  if (audio.music) {
+    const m = audio.music;
+    const src = ctx.createBufferSource(); src.buffer = await decodeMusic(ctx, m.dataUrl); src.loop = true;
+    const vol = ctx.createGain(); const fade = ctx.createGain();
+    const base = clamp01(m.volume);
+    vol.gain.setValueAtTime(base, 0);
+    const spans = duck.sort((x, y) => x[0] - y[0]).reduce<Array<[number, number]>>((acc, [a, b]) => { const last = acc[acc.length - 1]; if (last && a <= last[1]) last[1] = Math.max(last[1], b); else acc.push([a, b]); return acc; }, []);
+    if (m.duck) for (const [a, b] of spans) { vol.gain.setTargetAtTime(base * 0.35, Math.max(0, a - 0.04), 0.02); vol.gain.setTargetAtTime(base, b, 0.12); }
+    const fadeS = Math.min(Math.max(0, m.fadeOutS), totalS);
+    fade.gain.setValueAtTime(1, totalS - fadeS); fade.gain.linearRampToValueAtTime(0, totalS);
+    src.connect(vol).connect(fade).connect(ctx.destination); src.start(0);
+  }
+  return ctx.startRendering();
+}
+
+/** 16-bit PCM WAV for ffmpeg */
+function audioBufferToWav(buf: AudioBuffer): Uint8Array<ArrayBuffer> {
+  const ch = buf.numberOfChannels, n = buf.length, bytes = 44 + n * ch * 2;
+  const out = new DataView(new ArrayBuffer(bytes));
+  const str = (o: number, s: string) => { for (let i = 0; i < s.length; i++) out.setUint8(o + i, s.charCodeAt(i)); };
+  str(0, 'RIFF'); out.setUint32(4, bytes - 8, true); str(8, 'WAVE'); str(12, 'fmt '); out.setUint32(16, 16, true); out.setUint16(20, 1, true);
+  out.setUint16(22, ch, true); out.setUint32(24, buf.sampleRate, true); out.setUint32(28, buf.sampleRate * ch * 2, true); out.setUint16(32, ch * 2, true); out.setUint16(34, 16, true);
+  str(36, 'data'); out.setUint32(40, n * ch * 2, true);
+  const data = Array.from({ length: ch }, (_, c) => buf.getChannelData(c));
+  for (let i = 0, o = 44; i < n; i++) for (let c = 0; c < ch; c++, o += 2) { const v = Math.max(-1, Math.min(1, data[c][i])); out.setInt16(o, v < 0 ? v * 0x8000 : v * 0x7FFF, true); }
+  return new Uint8Array(out.buffer);
+}
+
+/** Keep an AudioBuffer playing in step with the preview timeline: restarts on play, seek/jumps and when the mix changes. */
+function useTimelineAudio(buffer: AudioBuffer | null | undefined, playing: boolean, timeMs: number) {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const cur = useRef<{ node: AudioBufferSourceNode; buffer: AudioBuffer; startMs: number; ctxT0: number } | null>(null);
+  const stop = () => { try { cur.current?.node.stop(); } catch { /* already stopped */ } cur.current = null; };
+  useEffect(() => {
+    if (!playing || !buffer) { stop(); return; }
+    const ctx = ctxRef.current ?? (ctxRef.current = new AudioContext());
+    if (ctx.state !== 'running') { ctx.resume().catch(() => {}); return; }
+    const c = cur.current;
+    if (c && c.buffer === buffer && Math.abs(c.startMs + (ctx.currentTime - c.ctxT0) * 1000 - timeMs) < 200) return; // in sync
+    stop();
+    if (timeMs >= buffer.duration * 1000) return;
+    const node = ctx.createBufferSource(); node.buffer = buffer; node.connect(ctx.destination); node.start(0, Math.max(0, timeMs) / 1000);
+    cur.current = { node, buffer, startMs: timeMs, ctxT0: ctx.currentTime };
+  }, [buffer, playing, timeMs]);
+  useEffect(() => () => { stop(); ctxRef.current?.close().catch(() => {}); }, []);
+}
+
+// ---------------- Narration (pluggable text-to-speech) ----------------
+// Voice settings are keyed by speaker: "SENDER", "RECEIVER" (two-party chats) or a group participant id. Missing keys use the provider default.
+export type NarrationSettings = { enabled: boolean; provider: string; volume: number; voices: Record<string, string> };
+export type VoiceOption = { id: string; label: string };
+/** A speech engine. synthesize() must be deterministic for a (text, voice) pair so exports reproduce the preview. */
+export type VoiceProvider = {
+  id: string;
+  label: string;
+  voices: VoiceOption[];
+  defaultVoice: (slot: number) => string; // 0 = me, 1 = contact / first participant, 2… = further participants
+  note?: string; // licence or download notice shown under the narration toggle
+  synthesize: (text: string, voiceId: string) => Promise<{ pcm: Float32Array; sampleRate: number }>;
+};
+/** A synthesised line for one message, placed at that message's show time */
+export type NarrationClip = { id: string; pcm: Float32Array; sampleRate: number; seconds: number };
+const NARRATION_GAP_S = 0.6; // pause after a clip before the next message starts
+
+/** First channel of a 16-bit PCM WAV as floats */
+function wavToPcm(buf: ArrayBuffer): { pcm: Float32Array; sampleRate: number } {
+  const v = new DataView(buf); let o = 12, ch = 1, sampleRate = 0;
+  while (o + 8 <= v.byteLength) {
+    const id = String.fromCharCode(v.getUint8(o), v.getUint8(o + 1), v.getUint8(o + 2), v.getUint8(o + 3)); const size = v.getUint32(o + 4, true);
+    if (id === 'fmt ') { ch = v.getUint16(o + 10, true); sampleRate = v.getUint32(o + 12, true); }
+    if (id === 'data' && sampleRate) {
+      const n = Math.floor(Math.min(size, v.byteLength - o - 8) / (2 * ch)); const pcm = new Float32Array(n);
+      for (let i = 0; i < n; i++) pcm[i] = v.getInt16(o + 8 + i * 2 * ch, true) / 0x8000;
+      return { pcm, sampleRate };
+    }
+    o += 8 + size + (size & 1);
+  }
+  throw new Error('Unsupported WAV data');
+}
+
+// Opt-in engine: meSpeak (eSpeak compiled to JS) is GPL-licensed, so it is not bundled. Narrating with it downloads a pinned
+// build and the US/UK English voices on first use (as ffmpeg.wasm fetches its core); after that it runs offline.
+const ESPEAK_CDN = 'https://cdn.jsdelivr.net/npm/mespeak@2.0.2';
+type MeSpeak = { loadConfig(data: object): void; loadVoice(data: object): void; speak(text: string, args: Record<string, unknown>): ArrayBuffer | null };
+const fetchJson = (url: string) => fetch(url).then((r) => { if (!r.ok) throw new Error(`${url}: HTTP ${r.status}`); return r.json(); });
+let espeakEngine: Promise<MeSpeak> | null = null;
+const loadEspeak = () => espeakEngine ?? (espeakEngine = Promise.all([import(/* @vite-ignore */ `${ESPEAK_CDN}/+esm`), ...['src/mespeak_config.json', 'voices/en/en-us.json', 'voices/en/en.json'].map((f) => fetchJson(`${ESPEAK_CDN}/${f}`))])
+  .then(([mod, config, ...voices]) => { const me: MeSpeak = mod.default; me.loadConfig(config); voices.forEach((v) => me.loadVoice(v)); return me; })
+  .catch((e) => { espeakEngine = null; throw new Error(`Could not download the eSpeak engine: ${e?.message || e}`); }));
+const ESPEAK_VARIANTS = [['m1', 'Male 1'], ['m2', 'Male 2'], ['m3', 'Male 3'], ['m4', 'Male 4'], ['m6', 'Male 5'], ['f1', 'Female 1'], ['f2', 'Female 2'], ['f3', 'Female 3'], ['f4', 'Female 4'], ['f5', 'Female 5']];
+const ESPEAK_DEFAULTS = ['en/en-us+m3', 'en/en-us+f2', 'en/en+m4', 'en/en-us+f4', 'en/en+m6', 'en/en+f3'];
+const ESPEAK_PROVIDER: VoiceProvider = {
+  id: 'espeak',
+  label: 'eSpeak (GPL, downloaded on first use)',
+  voices: [['en/en-us', 'US'], ['en/en', 'UK']].flatMap(([v, accent]) => ESPEAK_VARIANTS.map(([k, name]) => ({ id: `${v}+${k}`, label: `${accent} · ${name}` }))),
+  defaultVoice: (slot) => ESPEAK_DEFAULTS[slot % ESPEAK_DEFAULTS.length],
+  note: 'eSpeak is GPL-licensed and not part of this app: its engine and voices (about 1.2 MB) download from jsDelivr the first time a line is spoken.',
+  async synthesize(text, voiceId) {
+    const me = await loadEspeak();
+    const [voice, variant] = voiceId.split('+');
+    const wav = me.speak(text, { rawdata: 'arraybuffer', voice, variant });
+    if (!wav) throw new Error(`eSpeak could not synthesise "${text.slice(0, 40)}"`);
+    return wavToPcm(wav);
+  },
+};
+const VOICE_PROVIDERS: Record<string, VoiceProvider> = { [ESPEAK_PROVIDER.id]: ESPEAK_PROVIDER };
+const voiceProvider = (id: string) => VOICE_PROVIDERS[id] ?? ESPEAK_PROVIDER;
+
+/** What gets read aloud: the visible text (captions, link titles); voice notes and stickers stay silent */
+function narrationText(m: Message): string {
+  const kind = m.kind || 'text';
+  const text = kind === 'voice' || kind === 'sticker' ? '' : kind === 'link' ? (m.text.trim() || m.link_title || '') : m.text;
+  return text.replace(/\s+/g, ' ').trim();
+}
+/** Voice for a message: explicit per-speaker choice, else the provider's default for that speaker slot */
+function narrationVoice(n: NarrationSettings, chat: ChatInfo, m: Message): string {
+  const provider = voiceProvider(n.provider);
+  if (m.speaker === 'SENDER') return n.voices.SENDER || provider.defaultVoice(0);
+  const who = participantOf(chat, m);
+  return who ? (n.voices[who.p.id] || provider.defaultVoice(1 + who.index)) : (n.voices.RECEIVER || provider.defaultVoice(1));
+}
+
+const narrationCache = new Map<string, Promise<{ pcm: Float32Array; sampleRate: number }>>();
+/** One clip per spoken message (cached per provider/voice/text, so editing one line only re-synthesises that line) */
+async function synthesizeNarration(messages: Message[], chat: ChatInfo, n: NarrationSettings): Promise<NarrationClip[]> {
+  if (!n.enabled) return [];
+  const provider = voiceProvider(n.provider);
+  const clips: NarrationClip[] = [];
+  for (const m of messages) {
+    const text = narrationText(m); if (!text) continue;
+    const voice = narrationVoice(n, chat, m);
+    const key = `${provider.id}|${voice}|${text}`;
+    let job = narrationCache.get(key);
+    if (!job) {
+      if (narrationCache.size > 300) narrationCache.clear();
+      job = provider.synthesize(text, voice); narrationCache.set(key, job);
+      job.catch(() => narrationCache.delete(key));
+    }
+    const { pcm, sampleRate } = await job;
+    clips.push({ id: m.id, pcm, sampleRate, seconds: pcm.length / sampleRate });
+  }
+  return clips;
+}
+/** Narrated messages hold for their clip (plus a short pause) instead of delay_s */
+const applyNarrationTiming = (messages: Message[], clips: NarrationClip[]): Message[] => {
+  if (!clips.length) return messages;
+  const byId = new Map(clips.map((c) => [c.id, c]));
+  return messages.map((m) => { const c = byId.get(m.id); return c ? { ...m, delay_s: Math.round((c.seconds + NARRATION_GAP_S) * 1000) / 1000 } : m; });
+};
+/** Narration clips plus every scene's messages re-timed around them; everything downstream (schedule, frames, audio mix) uses these */
+async function narrateScenes(scenes: Scene[], audio: AudioSettings) {
+  const clips = (await Promise.all(scenes.map((s) => synthesizeNarration(s.messages, s.chat, audio.narration)))).flat();
+  return { scenes: scenes.map((s) => ({ ...s, messages: applyNarrationTiming(s.messages, clips) })), clips };
+}
+
+// ---------------- Pacing (story length, part splitting) ----------------
+// fit: compress the timeline into fitS seconds when longer (the old 40 s cap); natural: no cap;
+// reading: messages without an explicit delay hold for as long as they take to read at `wpm`.
+// partS > 0 cuts the story at message boundaries into parts of at most that many seconds (natural pace), one video each.
+export type PacingMode = 'fit' | 'natural' | 'reading';
+export type PacingSettings = { mode: PacingMode; fitS: number; wpm: number; partS: number; endCards: boolean };
+const PACING_MODES: PacingMode[] = ['fit', 'natural', 'reading'];
+const DEFAULT_PACING: PacingSettings = { mode: 'fit', fitS: 40, wpm: 200, partS: 0, endCards: true };
+const END_CARD_MS = 2000; // "Part 2 →" card held at the end of every part but the last
+
+/** Seconds a message stays the newest one at reading speed: words at `wpm`, a beat to notice it, longer for media */
+function readingDelayS(m: Message, wpm: number): number {
+  const kind = m.kind || 'text';
+  if (kind === 'voice') return (m.voice_s ?? 5) + 0.5;
+  const words = (kind === 'link' ? `${m.text} ${m.link_title ?? ''}` : m.text).split(/\s+/).filter(Boolean).length;
+  const extra = kind === 'photo' ? 1.5 : kind === 'link' ? 1 : 0;
+  return Math.round(Math.max(1.2, 0.6 + extra + (words * 60) / Math.max(1, wpm)) * 1000) / 1000;
+}
+const paceMessages = (messages: Message[], pacing: PacingSettings): Message[] =>
+  pacing.mode === 'reading' ? messages.map((m) => (m.delay_s == null ? { ...m, delay_s: readingDelayS(m, pacing.wpm) } : m)) : messages;
+
+/** Sum of per-message delays (or the latest tapback/receipt) plus a tail pad to match preview pacing */
+const naturalLength = (endMs: number) => Math.max(3000, endMs + 1500);
+function storyTiming(messages: Message[], pacing: PacingSettings = DEFAULT_PACING) {
+  const naturalMs = naturalLength(buildSchedule(messages).endMs);
+  const capMs = pacing.mode === 'fit' ? Math.max(3, pacing.fitS) * 1000 : Infinity;
+  const timeScale = naturalMs > capMs ? (naturalMs / capMs) : 1;
+  return { naturalMs, timeScale, totalMs: Math.min(naturalMs, capMs) };
+}
+
+/** [from, to) message ranges, greedily filled up to partS seconds each (a part always holds at least one message) */
+function storyParts(messages: Message[], pacing: PacingSettings, leadMs = 0): Array<[number, number]> {
+  if (!(pacing.partS > 0)) return [[0, messages.length]];
+  const parts: Array<[number, number]> = [];
+  const { entries } = buildSchedule(messages);
+  let from = 0, endAt = 0; // the latest endAt in messages[from, to): a slice's schedule is the full one shifted by its first start
+  for (let to = 1; to <= messages.length; to++) {
+    endAt = Math.max(endAt, entries[to - 1].endAt);
+    const budget = pacing.partS * 1000 - (from === 0 ? leadMs : 0); // part 1 shares its length with the intro
+    if (to - from > 1 && naturalLength(endAt - entries[from].start) > budget) { parts.push([from, to - 1]); from = to - 1; endAt = entries[from].endAt; }
+  }
+  parts.push([from, messages.length]);
+  return parts;
+}
+
+export type StoryCut = {
+  messages: Message[]; part: number; parts: number; timeScale: number; totalMs: number; endCard?: { label: string; atMs: number };
+  intro?: IntroSettings; introMs: number; // part 1 only: the chat's timeline starts introMs in
+};
+/** One video's worth of story: the optional intro (part 1), the paced messages of part `part`, its timing and the optional end card after it */
+function storyCut(messages: Message[], pacing: PacingSettings, part = 0, intro?: IntroSettings): StoryCut {
+  const paced = paceMessages(messages, pacing);
+  const introMs = intro ? introLength(intro) : 0;
+  const parts = storyParts(paced, pacing, introMs);
+  const k = Math.max(0, Math.min(part, parts.length - 1));
+  const cut = paced.slice(...parts[k]);
+  const lead = k === 0 ? introMs : 0;
+  const { timeScale, totalMs } = storyTiming(cut, lead ? { ...pacing, fitS: Math.max(1, pacing.fitS - lead / 1000) } : pacing);
+  const endCard = pacing.endCards && k < parts.length - 1 ? { label: `Part ${k + 2} →`, atMs: lead + totalMs } : undefined;
+  return { messages: cut, part: k, parts: parts.length, timeScale, totalMs: lead + totalMs + (endCard ? END_CARD_MS : 0), endCard, intro: lead ? intro : undefined, introMs: lead };
+}
+
+// ---------------- Intro (lock / home screen with notifications before the chat) ----------------
+// The intro is a stretch of real time in front of part 1 (storyCut adds it; fit pacing fits intro and chat together).
+// The chat's own timeline starts once it ends: the newest notification is pressed and the chat opens out of it.
+export type IntroScreen = 'lock' | 'home';
+export type IntroNotification = { id: string; text: string; at_s: number; title?: string }; // title: the contact or group unless set
+export type IntroSettings = { screen: IntroScreen; durationS: number; wallpaper: string; notifications: IntroNotification[] };
+const INTRO_SCREENS: IntroScreen[] = ['lock', 'home'];
+const INTRO_MAX_S = 10;
+const DEFAULT_WALLPAPER = 'linear-gradient(165deg, #22345C 0%, #5B3E74 55%, #141824 100%)';
+const INTRO_SLIDE_MS = 420;  // a notification arriving
+const INTRO_TAP_MS = 350;    // the newest one is pressed…
+const INTRO_EXPAND_MS = 600; // …then the chat opens out of it
+const introLength = (intro: IntroSettings) => Math.round(Math.max(1, intro.durationS) * 1000);
+
+/** Name a notification is from: the group (or its members), else the contact */
+const chatTitle = (chat: ChatInfo, contactName: string) =>
+  chat.group && chat.participants.length > 0 ? chat.groupName.trim() || chat.participants.map((x) => x.name).join(', ') : contactName;
+/** The app a skin's notifications come from */
+const notificationApp = (skin: Skin) => skin.notification?.app ?? skin.label.replace(/ DM$/, '');
+
+/** A push notification as the phone shows it: app icon and name, sender, preview and "now" (a Material card on Android) */
+function NotificationCard({ uiStyle, title, body, S, pressed = false }: { uiStyle?: SkinId; title: string; body: string; S: number; pressed?: boolean }) {
+  const skin = skinOf(uiStyle), pal = skin.palette.LIGHT, material = !!skin.notification?.material, app = notificationApp(skin);
+  const iconPx = Math.round((material ? 40 : 78) * S);
+  const icon = (
+    <div style={{ flexShrink: 0, width: iconPx, height: iconPx, borderRadius: material ? "50%" : Math.round(18 * S), background: pal.send, display: "flex", alignItems: "center", justifyContent: "center" }}>
+      <svg width={Math.round(iconPx * 0.56)} height={Math.round(iconPx * 0.56)} viewBox="0 0 24 24" aria-hidden><path d="M12 3C6.5 3 2 6.6 2 11c0 2.4 1.3 4.6 3.4 6.1L4.5 21l4.2-2.3c1 .3 2.1.4 3.3.4 5.5 0 10-3.6 10-8s-4.5-8-10-8Z" fill={pal.sendText} /></svg>
+    </div>
+  );
+  const line = (px: number, weight: number, text: string) => (<div style={{ fontSize: Math.round(px * S), fontWeight: weight, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>{text}</div>);
+  if (material) return (
+    <div style={{ padding: `${Math.round(22 * S)}px ${Math.round(30 * S)}px`, borderRadius: Math.round(30 * S), background: pressed ? "#E2E4EA" : "#F3F4F8", boxShadow: "0 10px 30px rgba(0,0,0,.3)", fontFamily: skin.font, color: "#1F1F1F" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: Math.round(14 * S), fontSize: Math.round(24 * S), color: "#5F6368" }}>{icon}<span>{app} • now</span></div>
+      <div style={{ marginTop: Math.round(10 * S) }}>{line(32, 600, title)}{line(30, 400, body)}</div>
+    </div>
+  );
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: Math.round(22 * S), padding: `${Math.round(24 * S)}px ${Math.round(28 * S)}px`, borderRadius: Math.round(38 * S),
+      background: pressed ? "rgba(235,235,240,.92)" : "rgba(250,250,252,.92)", boxShadow: "0 18px 50px rgba(0,0,0,.35)", fontFamily: FONT, color: "#111" }}>
+      {icon}
+      <div style={{ minWidth: 0, flex: 1 }}>
+        <div style={{ display: "flex", gap: 12, fontSize: Math.round(26 * S), color: "#6B7280" }}><span style={{ flex: 1 }}>{app.toUpperCase()}</span><span>now</span></div>
+        {line(34, 700, title)}{line(32, 400, body)}
+      </div>
+    </div>
+  );
+}
+
+/** Lock-screen clock and the day above it, from the chat's time line ("Today 7:42 PM" → 7:42, Today) */
+function lockClock(timeLine: string) {
+  const m = timeLine.match(/(\d{1,2})[:.](\d{2})/);
+  return { time: m ? `${Number(m[1])}:${m[2]}` : '9:41', day: timeLine.replace(/(\d{1,2})[:.](\d{2})\s*(AM|PM)?/i, '').replace(/[\s,·-]+$/, '').trim() };
+}
+const HOME_ICON_COLORS = ['#34C759', '#FF9500', '#5856D6', '#FF2D55', '#5AC8FA', '#FFCC00', '#AF52DE', '#8E8E93'];
+
+/** The intro at `ms` (0…introLength): wallpaper, clock or app grid, notifications stacking up newest first; fades as the chat opens */
+function IntroScreen({ intro, ms, canvas, uiStyle, title, timeLine }: { intro: IntroSettings; ms: number; canvas: CanvasSize; uiStyle?: SkinId; title: string; timeLine: string }) {
+  const L = introLength(intro);
+  if (ms >= L) return null;
+  const skin = skinOf(uiStyle), S = Math.min(canvas.w, canvas.h) / CANVAS.w, material = !!skin.notification?.material;
+  const openAt = L - INTRO_EXPAND_MS, open = ms > openAt ? easeInOut((ms - openAt) / INTRO_EXPAND_MS) : 0;
+  const { time, day } = lockClock(timeLine);
+  const shown = intro.notifications.filter((n) => ms >= n.at_s * 1000).sort((a, b) => b.at_s - a.at_s);
+  const CARD = Math.round((material ? 170 : 150) * S), GAP = Math.round(16 * S);
+  const top = intro.screen === 'lock' ? Math.round(canvas.h * 0.34) : Math.round(70 * S);
+  let y = 0;
+  const cards = shown.map((n, i) => {
+    const p = easeOutCubic((ms - n.at_s * 1000) / INTRO_SLIDE_MS), at = y;
+    y += (CARD + GAP) * p; // older cards make room as a new one slides in above them
+    const pressed = i === 0 && ms >= openAt - INTRO_TAP_MS;
+    return (
+      <div key={n.id} style={{ position: "absolute", left: "4%", right: "4%", top: top + at, opacity: p, transform: `translateY(${((p - 1) * CARD * 0.6).toFixed(1)}px) scale(${pressed ? 0.97 : 1})` }}>
+        <NotificationCard uiStyle={uiStyle} title={n.title?.trim() || title} body={n.text} S={S} pressed={pressed} />
+      </div>
+    );
+  });
+  const clockFont = material ? skin.font : FONT;
+  return (
+    <div style={{ position: "absolute", inset: 0, background: intro.wallpaper || DEFAULT_WALLPAPER, overflow: "hidden", opacity: 1 - open, transform: open ? `scale(${(1 + 0.08 * open).toFixed(4)})` : undefined, color: "#FFFFFF" }}>
+      {intro.screen === 'lock' ? (
+        <div style={{ position: "absolute", left: 0, right: 0, top: Math.round(canvas.h * 0.1), textAlign: "center", fontFamily: clockFont, textShadow: "0 2px 12px rgba(0,0,0,.25)" }}>
+          {!material && day && (<div style={{ fontSize: Math.round(44 * S), fontWeight: 600, opacity: 0.9 }}>{day}</div>)}
+          <div style={{ fontSize: Math.round(210 * S), fontWeight: material ? 400 : 700, lineHeight: 1.05, letterSpacing: material ? 0 : "-4px" }}>{time}</div>
+          {material && day && (<div style={{ fontSize: Math.round(40 * S), opacity: 0.9 }}>{day}</div>)}
+        </div>
+      ) : (
+        <>
+          <div style={{ position: "absolute", left: Math.round(60 * S), top: Math.round(22 * S), fontFamily: clockFont, fontSize: Math.round(34 * S), fontWeight: 600 }}>{time}</div>
+          <div style={{ position: "absolute", left: "8%", right: "8%", top: Math.round(canvas.h * 0.12), display: "grid", gridTemplateColumns: "repeat(4, 1fr)", rowGap: Math.round(70 * S), justifyItems: "center" }}>
+            {Array.from({ length: 20 }, (_, i) => (<div key={i} style={{ width: Math.round(150 * S), height: Math.round(150 * S), borderRadius: material ? "50%" : Math.round(36 * S), background: HOME_ICON_COLORS[(i * 5) % HOME_ICON_COLORS.length], opacity: 0.85 }} />))}
+          </div>
+          <div style={{ position: "absolute", left: "5%", right: "5%", bottom: Math.round(40 * S), height: Math.round(200 * S), borderRadius: Math.round(60 * S), background: "rgba(255,255,255,.22)", display: "flex", alignItems: "center", justifyContent: "space-around" }}>
+            {[0, 1, 2, 3].map((i) => (<div key={i} style={{ width: Math.round(150 * S), height: Math.round(150 * S), borderRadius: material ? "50%" : Math.round(36 * S), background: i === 0 ? skin.palette.LIGHT.send : HOME_ICON_COLORS[(i * 3 + 1) % HOME_ICON_COLORS.length] }} />))}
+          </div>
+        </>
+      )}
+      {cards}
+      {!material && intro.screen === 'lock' && (<div style={{ position: "absolute", left: "50%", bottom: Math.round(24 * S), width: Math.round(280 * S), height: Math.round(10 * S), marginLeft: -Math.round(140 * S), borderRadius: 99, background: "rgba(255,255,255,.8)" }} />)}
+    </div>
+  );
+}
+
+// ---------------- Scenes (several chats in one video, SPLIT layout) ----------------
+// The project's top-level chat is scene 1; `scenes` adds more, each entered by a transition. All scenes fold into one
+// script (foldScenes), so pacing, parts, narration, the audio mix and the timeline treat the video as a single story.
+export type SceneTransition = 'cut' | 'swipe' | 'banner';
+const SCENE_TRANSITIONS: Record<SceneTransition, { label: string; ms: number }> = {
+  cut: { label: 'Cut', ms: 400 },
+  swipe: { label: 'Swipe between chats', ms: 700 },
+  banner: { label: 'Notification banner tap', ms: 2200 },
+};
+const TRANSITION_KEYS = Object.keys(SCENE_TRANSITIONS) as SceneTransition[];
+const SPLIT_HUD_SCALE = 0.72; // each phone of a SPLIT layout, relative to a single phone's HUD
+type SceneMedia = Record<string, BackgroundMedia | null>; // decoded background per scene id
+
+/** Every scene of a project; the first is built from its top-level fields */
+const docScenes = (doc: ProjectDoc): Scene[] => [
+  { id: 'main', transition: 'cut', meta: { contactName: doc.meta.contactName, timeLine: doc.meta.timeLine, avatarUrl: doc.meta.avatarUrl }, chat: doc.chat, settings: doc.settings, background: doc.background, theme: doc.theme, messages: doc.messages },
+  ...(doc.scenes ?? []),
+];
+
+/** One script for the whole video: the last message of each scene holds for its own delay plus the next scene's transition */
+function foldScenes(scenes: Array<Pick<Scene, 'transition' | 'messages'>>, pacing: PacingSettings): Message[] {
+  const used = scenes.filter((s) => s.messages.length);
+  return used.flatMap((s, k) => {
+    const next = used[k + 1];
+    if (!next) return s.messages;
+    const last = s.messages[s.messages.length - 1];
+    const delay = last.delay_s ?? (pacing.mode === 'reading' ? readingDelayS(last, pacing.wpm) : 3);
+    return [...s.messages.slice(0, -1), { ...last, delay_s: Math.round((delay + SCENE_TRANSITIONS[next.transition].ms / 1000) * 1000) / 1000 }];
+  });
+}
+
+/** A scene's stretch of a cut: its messages, its local time 0 on the cut's timeline, the transition into it and where it ends */
+export type ScenePlan = { scene: Scene; messages: Message[]; startMs: number; enterMs: number; endMs: number };
+function scenePlan(scenes: Scene[], cut: StoryCut): ScenePlan[] {
+  const sceneOf = new Map<string, Scene>();
+  scenes.forEach((s) => s.messages.forEach((m) => sceneOf.set(m.id, s)));
+  const { entries } = buildSchedule(cut.messages, cut.timeScale);
+  const plans: ScenePlan[] = [];
+  cut.messages.forEach((m, i) => {
+    const s = sceneOf.get(m.id) ?? scenes[0], cur = plans[plans.length - 1];
+    if (cur && cur.scene === s) { cur.messages.push(m); return; }
+    // a part that starts mid-story opens on its first scene without a transition
+    const startMs = cur ? cut.introMs + entries[i].start : 0;
+    const enterMs = cur ? Math.min(Math.round(SCENE_TRANSITIONS[s.transition].ms / cut.timeScale), startMs - entries[i - 1].show) : 0;
+    if (cur) cur.endMs = startMs;
+    plans.push({ scene: s, messages: [m], startMs, enterMs, endMs: cut.totalMs });
+  });
+  if (!plans.length) plans.push({ scene: scenes[0], messages: [], startMs: 0, enterMs: 0, endMs: cut.totalMs });
+  return plans;
+}
+
+/** The scene on screen at `ms` (k), how far its transition has run (p) and which scenes are drawn (two mid-transition) */
+function sceneAt(plans: ScenePlan[], ms: number) {
+  let k = 0;
+  while (k + 1 < plans.length && ms >= plans[k + 1].startMs - plans[k + 1].enterMs) k++;
+  const cur = plans[k];
+  const p = cur.enterMs > 0 ? clamp01((ms - (cur.startMs - cur.enterMs)) / cur.enterMs) : 1;
+  const shown = k > 0 && p < 1 && cur.scene.transition !== 'cut' ? [k - 1, k] : [k];
+  return { k, p, shown };
+}
+
+/**
+ * The same chat as the other phone of a SPLIT layout sees it: sides swapped, me named `myName`; a group is seen from its
+ * first participant's phone. Sent messages show no typing bubble, so typing becomes part of the pause before them.
+ * Undelivered messages never reach the other phone; their pause carries over to the message before. A pause with no
+ * message before it (leading typing or failed sends) becomes `offsetMs`, so both phones show every message at the same moment.
+ */
+function mirrorScene(messages: Message[], chat: ChatInfo, myName: string, timeScale: number) {
+  const group = chat.group && chat.participants.length > 0;
+  const them = group ? chat.participants[0].id : undefined;
+  const me: Participant = { id: 'split-me', name: myName };
+  const out: Message[] = [];
+  const scale = timeScale > 0 ? timeScale : 1;
+  let offsetMs = 0; // rounded per pause, as buildSchedule rounds each delay
+  const pause = (s: number) => {
+    const p = out[out.length - 1]; if (!s) return;
+    if (p) out[out.length - 1] = { ...p, delay_s: (p.delay_s ?? 3) + s }; else offsetMs += Math.round((s * 1000) / scale);
+  };
+  for (const m of messages) {
+    if (m.failed && m.speaker === 'SENDER') { pause(m.delay_s ?? 3); continue; }
+    const speaker: Message['speaker'] = m.speaker === 'SENDER' ? 'RECEIVER' : !group || (m.participant_id ?? them) === them ? 'SENDER' : 'RECEIVER';
+    if (speaker === 'SENDER') pause(m.typing_s ?? 0);
+    out.push({ ...m, speaker, failed: undefined, typing_s: speaker === 'SENDER' ? undefined : m.speaker === 'SENDER' ? 0 : m.typing_s, participant_id: m.speaker === 'SENDER' && group ? me.id : speaker === 'SENDER' ? undefined : m.participant_id });
+  }
+  return { messages: out, chat: group ? { ...chat, participants: [me, ...chat.participants.slice(1)] } : chat, offsetMs };
+}
+
+/** Decoded background media for several scenes, keyed by scene id; a scene's media is reloaded only when it changes */
+function useSceneMedia(scenes: Scene[]): SceneMedia {
+  const [media, setMedia] = useState<SceneMedia>({});
+  const cache = useRef(new Map<string, { bg: BackgroundSettings; media: Promise<BackgroundMedia | null> }>());
+  useEffect(() => {
+    let live = true;
+    const c = cache.current, ids = new Set(scenes.map((s) => s.id));
+    for (const [id, e] of c) if (!ids.has(id)) { e.media.then((m) => m?.dispose()); c.delete(id); }
+    for (const s of scenes) {
+      const e = c.get(s.id);
+      if (e && e.bg.type === s.background.type && e.bg.media?.dataUrl === s.background.media?.dataUrl) continue;
+      e?.media.then((m) => m?.dispose());
+      // media that won't decode leaves the base colour; the Background tab says why once that scene is opened
+      c.set(s.id, { bg: s.background, media: loadBackgroundMedia(s.background).catch(() => null) });
+    }
+    Promise.all(scenes.map(async (s) => [s.id, await c.get(s.id)!.media] as const)).then((list) => { if (live) setMedia(Object.fromEntries(list)); });
+    return () => { live = false; };
+  }, [scenes]);
+  useEffect(() => () => { cache.current.forEach((e) => e.media.then((m) => m?.dispose())); }, []);
+  return media;
+}
+
+/** The story at `timeMs`: the scene on screen (two phones in SPLIT) and, mid-transition, the scene it replaces */
+function SceneStage({ plans, timeMs, timeScale, layout, canvas, exportMode = false, running, endCard, intro, media, transparent, tall = false }: {
+  plans: ScenePlan[];
+  timeMs: number;
+  timeScale: number;
+  layout: ProjectDoc['layout'];
+  canvas: CanvasSize;
+  exportMode?: boolean;
+  running?: boolean; // live preview: whether the clock runs (background videos follow it)
+  endCard?: StoryCut['endCard'];
+  intro?: IntroSettings; // in front of the first scene
+  media: SceneMedia;
+  transparent?: boolean; // alpha exports: no backgrounds (captions stay)
+  tall?: boolean; // full-chat still: every scene at its end, unclipped, one under the other (timeMs is ignored)
+}) {
+  const split = layout.mode === 'SPLIT', myName = layout.splitName || 'Me';
+  const mirrors = useMemo(() => (split ? plans.map((p) => mirrorScene(p.messages, p.scene.chat, myName, timeScale)) : []), [plans, split, myName, timeScale]);
+  const { k, p, shown } = sceneAt(plans, timeMs);
+
+  const phones = (i: number, at = timeMs) => {
+    const plan = plans[i], sc = plan.scene, local = at - plan.startMs, dur = Math.max(1, plan.endMs - plan.startMs);
+    const settings = split ? { ...sc.settings, hudScalePct: sc.settings.hudScalePct * SPLIT_HUD_SCALE } : sc.settings;
+    const background: BackgroundSettings = transparent ? { type: 'solid', value: 'transparent', captions: sc.background.captions } : sc.background;
+    const common = { exportMode, running, timeScale, canvas, settings, theme: sc.theme, durationMs: dur, tall };
+    const mirror = split ? mirrors[i] : null, lead = i === 0 && intro ? introLength(intro) : 0;
+    return (
+      <FakeTextPreview {...common} contactName={sc.meta.contactName} avatarUrl={sc.meta.avatarUrl} timeLine={sc.meta.timeLine} messages={plan.messages} chat={sc.chat}
+        bgColor={background.value} background={background} bgMedia={transparent ? null : media[sc.id]} timeOverrideMs={local}
+        endCard={endCard && !tall && i === plans.length - 1 ? { ...endCard, atMs: endCard.atMs - plan.startMs } : undefined} intro={lead ? intro : undefined} column={split ? { x: 0, w: 0.5 } : undefined}
+        overlay={mirror && (<FakeTextPreview {...common} contactName={myName} timeLine={sc.meta.timeLine} messages={mirror.messages} chat={mirror.chat} bgColor="transparent" timeOverrideMs={local - lead - mirror.offsetMs} column={{ x: 0.5, w: 0.5 }} />)} />
+    );
+  };
+  if (tall) return (<div style={{ width: canvas.w }}>{plans.map((plan, i) => (<div key={plan.scene.id + i}>{phones(i, plan.endMs)}</div>))}</div>);
+  // layers keep their key (the scene's index) across a transition, so neither chat remounts
+  const layer = (i: number) => {
+    const t = plans[k].scene.transition;
+    let transform: string | undefined, opacity: number | undefined;
+    if (shown.length > 1 && t === 'swipe') { const e = easeInOut(p); transform = `translateX(${((i === k ? 1 - e : -e) * canvas.w).toFixed(1)}px)`; }
+    if (shown.length > 1 && t === 'banner' && i === k) {
+      if (p < BANNER_TAP_AT) opacity = 0;
+      else { const q = easeOutCubic((p - BANNER_TAP_AT) / (1 - BANNER_TAP_AT)); transform = `scale(${(0.9 + 0.1 * q).toFixed(4)})`; opacity = q; }
+    }
+    return (<div key={plans[i].scene.id + i} style={{ position: "absolute", inset: 0, transform, opacity, transformOrigin: "50% 10%" }}>{phones(i)}</div>);
+  };
+  return (
+    <div data-fk={exportMode ? `${k}/${shown.join(',')}/${p.toFixed(4)}` : undefined} style={{ position: "relative", width: canvas.w, height: canvas.h, overflow: "hidden" }}>
+      {shown.map(layer)}
+      {shown.length > 1 && plans[k].scene.transition === 'banner' && p < BANNER_TAP_AT + 0.05 && (<NotificationBanner plan={plans[k]} canvas={canvas} p={p} />)}
+    </div>
+  );
+}
+
+const BANNER_TAP_AT = 0.8; // banner transition: slides in, holds, is tapped at 80%, then the new chat zooms up
+/** The next scene's first received message as a notification sliding down over the old chat (p = 0…1 through the transition) */
+function NotificationBanner({ plan, canvas, p }: { plan: ScenePlan; canvas: CanvasSize; p: number }) {
+  const S = Math.min(canvas.w, canvas.h) / CANVAS.w, sc = plan.scene;
+  const first = plan.messages.find((m) => m.speaker === 'RECEIVER');
+  const who = sc.chat.group && first ? participantOf(sc.chat, first)?.p.name : undefined;
+  const body = first ? (first.text.trim() || (first.kind === 'photo' ? 'Photo' : first.kind === 'voice' ? 'Voice message' : first.kind === 'link' ? first.link_url || 'Link' : 'Sticker')) : 'New message';
+  const slide = easeOutCubic(p / 0.2), tapped = p >= BANNER_TAP_AT - 0.12;
+  return (
+    <div style={{ position: "absolute", left: "4%", right: "4%", top: Math.round(54 * S), zIndex: 5, transform: `translateY(${((slide - 1) * 160).toFixed(1)}%) scale(${tapped ? 0.96 : 1})` }}>
+      <NotificationCard uiStyle={sc.settings.uiStyle} title={chatTitle(sc.chat, sc.meta.contactName)} body={who ? `${who}: ${body}` : body} S={S} pressed={tapped} />
+    </div>
+  );
+}
+
+/** Live preview of a multi-scene or SPLIT story: the clock, transport and audio that FakeTextPreview keeps itself for one chat */
+function StoryPreview({ plans, layout, canvas, durationMs, timeScale, audio, clock, endCard, intro, media }: {
+  plans: ScenePlan[]; layout: ProjectDoc['layout']; canvas: CanvasSize; durationMs: number; timeScale: number;
+  audio?: AudioBuffer | null; clock?: PreviewClock; endCard?: StoryCut['endCard']; intro?: IntroSettings; media: SceneMedia;
+}) {
+  const { timeMs, playing, toggle: onTogglePlay, seekRatio: onSeekRatio } = useStoryClock(durationMs, clock);
+  useTimelineAudio(audio, playing, timeMs);
+  return (
+    <div style={{ position: "relative", width: canvas.w, height: canvas.h, overflow: "hidden" }}>
+      <SceneStage plans={plans} timeMs={timeMs} timeScale={timeScale} layout={layout} canvas={canvas} running={playing} endCard={endCard} intro={intro} media={media} />
+      <TransportBar progress={clamp01(timeMs / durationMs)} durationMs={durationMs} onSeekRatio={onSeekRatio} onTogglePlay={onTogglePlay} />
+    </div>
+  );
+}
+
+// ---------------- Export stage (shared by in-browser export and the headless CLI) ----------------
+// Output formats. ffmpeg args are handed to scripts/render.mjs through window.__fts.load() so both encoders produce the same file.
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'png';
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; short: string; ext: string; mime: string; alpha?: boolean }> = {
+  mp4: { label: 'MP4 · H.264', short: 'MP4', ext: 'mp4', mime: 'video/mp4' },
+  webm: { label: 'WebM · VP9 with alpha (overlay)', short: 'WebM', ext: 'webm', mime: 'video/webm', alpha: true },
+  gif: { label: 'Animated GIF (no audio)', short: 'GIF', ext: 'gif', mime: 'image/gif' },
+  png: { label: 'PNG sequence (.zip)', short: 'PNG sequence', ext: 'zip', mime: 'application/zip' },
+};
+/** ffmpeg video output args for a format (PNG sequences never go through ffmpeg) */
+function videoEncodeArgs(format: ExportFormat, w: number, h: number, fps: number): string[] {
+  if (format === 'webm') return ['-r', String(fps), '-c:v', 'libvpx-vp9', '-pix_fmt', 'yuva420p', '-b:v', '0', '-crf', '30', '-row-mt', '1', '-auto-alt-ref', '0'];
+  // GIF: one palette for the whole clip, at most 720 px wide and 30 fps (browsers mangle shorter frame delays)
+  if (format === 'gif') return ['-vf', `fps=${Math.min(fps, 30)},scale=${Math.min(w, 720)}:-1:flags=lanczos,split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=sierra2_4a`, '-loop', '0'];
+  return ['-r', String(fps), '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-vf', `scale=${w}:${h}:flags=lanczos,format=yuv420p`, '-movflags', '+faststart'];
+}
+/** Audio codec args, or null when the container carries no audio */
+const audioEncodeArgs = (format: ExportFormat): string[] | null =>
+  format === 'mp4' ? ['-c:a', 'aac', '-b:a', '192k', '-shortest'] : format === 'webm' ? ['-c:a', 'libopus', '-b:a', '128k', '-shortest'] : null;
+// WebCodecs already produced 4:2:0 H.264 at the canvas size: ffmpeg only remuxes it
+const MP4_COPY_ARGS = ['-c:v', 'copy', '-movflags', '+faststart'];
+
+const nextFrame = () => new Promise((r) => requestAnimationFrame(() => r(null)));
+
+/**
+ * Mount the story's scenes offscreen at full canvas size, driven by timeOverrideMs, and rasterise them with html2canvas. `part` picks one part of a split story.
+ * Stills can ask for the `tall` full-chat layout (the stage grows to the content) or a thumbnail `title` over the frame.
+ */
+async function mountExportStage(doc: ProjectDoc, part = 0, { tall = false, title }: { tall?: boolean; title?: ThumbnailSettings } = {}) {
+  const narrated = await narrateScenes(docScenes(doc), doc.audio);
+  const story = { ...storyCut(foldScenes(narrated.scenes, doc.pacing), doc.pacing, part, doc.intro), clips: narrated.clips };
+  const plans = scenePlan(narrated.scenes, story);
+  const { timeScale, totalMs } = story;
+  const fps = doc.canvas.fps || 30;
+  const size: CanvasSize = { w: doc.canvas.width, h: doc.canvas.height };
+  // Alpha formats render the chat over a transparent canvas so the video can be used as an overlay (captions stay)
+  const alpha = !!EXPORT_FORMATS[doc.output.format].alpha;
+  const scenes = [...new Set(plans.map((p) => p.scene))];
+  const media: SceneMedia = Object.fromEntries(await Promise.all(scenes.map(async (s) => [s.id, alpha ? null : await loadBackgroundMedia(s.background)] as const)));
+  const fonts = await Promise.all(scenes.map((s) => loadThemeFont(s.theme?.font)));
+  const off = document.createElement('div');
+  Object.assign(off.style, { position: 'fixed', left: '-10000px', top: '0px', width: `${size.w}px`, height: tall ? 'auto' : `${size.h}px`, background: alpha ? 'transparent' : plans[0].scene.background.value, overflow: 'hidden' });
+  document.body.appendChild(off);
+  const offRoot = createRoot(off);
+
+  // Controlled time container
+  const ctl: { setTime?: (ms: number) => void } = {};
+  const ExportHost: React.FC = () => {
+    const [timeMs, setTimeMs] = useState(0);
+    ctl.setTime = setTimeMs;
+    return (<>
+      <SceneStage exportMode plans={plans} timeMs={timeMs} timeScale={timeScale} layout={doc.layout} canvas={size} endCard={story.endCard} intro={story.intro} media={media} transparent={alpha} tall={tall} />
+      {title && (<ThumbnailTitle thumb={title} canvas={size} />)}
+    </>);
+  };
+  offRoot.render(<ExportHost />);
+
+  // Wait for layout
+  await nextFrame();
+  await nextFrame();
+  const { default: html2canvas } = await import('html2canvas');
+
+  return {
+    fps,
+    size,
+    totalMs,
+    story, // this part's paced, narration-timed messages + timing + clips, for the audio mix
+    frameCount: Math.floor((totalMs * fps) / 1000) + 1,
+    frameTime: (i: number) => Math.min(totalMs, Math.round((i * 1000) / fps)), // exact (no per-frame rounding drift at 24/60 fps)
+    /**
+     * Seek the stage (no scrubber, exact timeline control). Returns the frame's key from the timeline state: equal keys ⇒ identical
+     * frames, so a time-driven value missing from a data-fk key (FakeTextPreview's frameKey, SceneStage) is silently frozen.
+     */
+    async seek(ms: number, signal?: AbortSignal) {
+      for (const i of sceneAt(plans, ms).shown) { // frame-accurate: the layout effect paints this frame
+        const m = media[plans[i].scene.id];
+        if (m?.el instanceof HTMLVideoElement) await seekVideo(m.el, videoTimeAt(m, ms - plans[i].startMs), signal);
+      }
+      ctl.setTime?.(ms);
+      await nextFrame();
+      return Array.from(off.querySelectorAll('[data-fk]'), (el) => el.getAttribute('data-fk')).join('\n');
+    },
+    /** Pixel height of the stage as laid out now (tall stages grow with the chat) */
+    height: () => (tall ? off.offsetHeight : size.h),
+    /** Rasterise the offscreen DOM as it currently stands */
+    rasterize() {
+      return html2canvas(off, { backgroundColor: null, width: size.w, height: this.height(), scale: 1, useCORS: true, logging: false });
+    },
+    async capture(ms: number, signal?: AbortSignal) { await this.seek(ms, signal); return this.rasterize(); },
+    dispose() { offRoot.unmount(); off.remove(); Object.values(media).forEach((m) => m?.dispose()); fonts.forEach((f) => f()); },
+  };
+}
+type ExportStage = Awaited<ReturnType<typeof mountExportStage>>;
+
+export type ExportProgress = { phase: string; done: number; total: number; unique?: number; startedAt: number };
+
+/**
+ * Step the stage through every frame in order, rasterising only when its frame key (the timeline state it shows) changed since the previous frame
+ * (between bubble arrivals nearly every frame is identical). Duplicates hand the last canvas on again with fresh=false.
+ */
+async function captureStory(stage: ExportStage, onFrame: (canvas: HTMLCanvasElement, i: number, fresh: boolean) => Promise<void>, opts: { signal?: AbortSignal; onProgress?: (done: number, unique: number) => void } = {}) {
+  let last: HTMLCanvasElement | null = null, lastKey = '', unique = 0;
+  for (let i = 0; i < stage.frameCount; i++) {
+    opts.signal?.throwIfAborted();
+    const key = await stage.seek(stage.frameTime(i), opts.signal);
+    const fresh = !last || key !== lastKey;
+    if (fresh) { last = await stage.rasterize(); lastKey = key; unique++; }
+    await onFrame(last!, i, fresh);
+    opts.onProgress?.(i + 1, unique);
+  }
+}
+
+const canvasToPng = async (canvas: HTMLCanvasElement) => {
+  const blob = await new Promise<Blob | null>((res) => canvas.toBlob(res, 'image/png'));
+  if (!blob) throw new Error('Canvas toBlob failed');
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/** H.264 through WebCodecs as an Annex B stream (ffmpeg can mux it without re-encoding), or null when unsupported */
+async function webCodecsH264(width: number, height: number, fps: number) {
+  if (typeof VideoEncoder === 'undefined') return null;
+  // High profile, level 4.2 up to 1080p60, 5.1 beyond
+  const config: VideoEncoderConfig = { codec: width * height > 2_100_000 ? 'avc1.640033' : 'avc1.64002A', width, height, framerate: fps, bitrate: 10_000_000, avc: { format: 'annexb' } };
+  const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) return null;
+  const chunks: Uint8Array[] = [];
+  let failure: unknown = null;
+  const enc = new VideoEncoder({ output: (c) => { const b = new Uint8Array(c.byteLength); c.copyTo(b); chunks.push(b); }, error: (e) => { failure = e; } });
+  enc.configure(config);
+  const us = 1e6 / fps;
+  return {
+    async encode(canvas: HTMLCanvasElement, i: number) {
+      if (failure) throw failure;
+      while (enc.encodeQueueSize > 4) await new Promise((r) => setTimeout(r, 4)); // backpressure
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(i * us), duration: Math.round(us) });
+      enc.encode(frame, { keyFrame: i % (fps * 2) === 0 }); frame.close();
+    },
+    async finish() {
+      await enc.flush(); enc.close();
+      if (failure) throw failure;
+      const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0)); let o = 0;
+      for (const c of chunks) { out.set(c, o); o += c.length; }
+      return out;
+    },
+    close() { if (enc.state !== 'closed') enc.close(); },
+  };
+}
+
+// Without ZIP64 a zip holds at most 65,535 entries and 4 GB (every offset is 32-bit)
+const ZIP_MAX_ENTRIES = 0xFFFF;
+const ZIP_MAX_BYTES = 0xFFFFFFFF;
+
+/**
+ * Minimal STORE-only zip writer (PNGs are already compressed). Entries are kept as Blob parts, never concatenated in JS;
+ * throws once the zip would outgrow ZIP_MAX_ENTRIES or ZIP_MAX_BYTES.
+ */
+function createZip() {
+  const table = new Uint32Array(256).map((_, n) => { let c = n; for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1; return c >>> 0; });
+  const crcStep = (c: number, d: Uint8Array) => { for (let i = 0; i < d.length; i++) c = table[(c ^ d[i]) & 0xFF] ^ (c >>> 8); return c; };
+  const crcOf = new WeakMap<Uint8Array, number>(); // repeated frames share bytes, so checksum each array once
+  const crc32 = (d: Uint8Array) => { let c = crcOf.get(d); if (c === undefined) { c = (crcStep(0xFFFFFFFF, d) ^ 0xFFFFFFFF) >>> 0; crcOf.set(d, c); } return c; };
+  const parts: BlobPart[] = [], central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0, count = 0, centralSize = 0;
+  const header = (size: number, fill: (v: DataView) => void) => { const b = new Uint8Array(size); fill(new DataView(b.buffer)); return b; };
+  const entry = (name: string, crc: number, size: number, data: BlobPart) => {
+    const nm = new TextEncoder().encode(name);
+    if (count >= ZIP_MAX_ENTRIES) throw new Error(`Too many files for one zip (the limit is ${ZIP_MAX_ENTRIES.toLocaleString('en-US')})`);
+    if (offset + 30 + nm.length + size + centralSize + 46 + nm.length + 22 > ZIP_MAX_BYTES) throw new Error('Too large for one zip (the limit is 4 GB)');
+    // version 2.0, no flags, STORE, DOS date 1980-01-01
+    const common = (v: DataView, o: number) => { v.setUint16(o, 20, true); v.setUint16(o + 8, 0x21, true); v.setUint32(o + 10, crc, true); v.setUint32(o + 14, size, true); v.setUint32(o + 18, size, true); v.setUint16(o + 22, nm.length, true); };
+    const local = header(30, (v) => { v.setUint32(0, 0x04034B50, true); common(v, 4); });
+    central.push(header(46, (v) => { v.setUint32(0, 0x02014B50, true); v.setUint16(4, 20, true); common(v, 6); v.setUint32(42, offset, true); }), nm);
+    parts.push(local, nm, data);
+    offset += 30 + nm.length + size; centralSize += 46 + nm.length; count++;
+  };
+  return {
+    add(name: string, data: Uint8Array<ArrayBuffer>) { entry(name, crc32(data), data.length, data); },
+    /** A Blob is checksummed chunk by chunk and stored as it is, so its bytes are never copied into memory */
+    async addBlob(name: string, blob: Blob) {
+      let c = 0xFFFFFFFF;
+      const reader = blob.stream().getReader();
+      for (let r = await reader.read(); !r.done; r = await reader.read()) c = crcStep(c, r.value);
+      entry(name, (c ^ 0xFFFFFFFF) >>> 0, blob.size, blob);
+    },
+    finish(): Blob {
+      const end = header(22, (v) => { v.setUint32(0, 0x06054B50, true); v.setUint16(8, count, true); v.setUint16(10, count, true); v.setUint32(12, centralSize, true); v.setUint32(16, offset, true); });
+      return new Blob([...parts, ...central, end], { type: 'application/zip' });
+    },
+  };
+}
+
+type ExportOptions = { signal: AbortSignal; onProgress: (p: ExportProgress) => void };
+
+/**
+ * Render a document in the format its manifest asks for (`output.format`, `canvas` size and fps): one file per part
+ * when pacing splits the story. PNG sequences are zipped in the browser; everything else goes through ffmpeg.wasm (see encodeWithFfmpeg).
+ */
+async function renderExport(doc: ProjectDoc, opts: ExportOptions): Promise<Blob[]> {
+  const out: Blob[] = [];
+  for (let part = 0, parts = 1; part < parts; part++) {
+    const stage = await mountExportStage(doc, part);
+    parts = stage.story.parts;
+    const onProgress = parts > 1 ? (p: ExportProgress) => opts.onProgress({ ...p, phase: `Part ${part + 1}/${parts} · ${p.phase}` }) : opts.onProgress;
+    try {
+      out.push(doc.output.format === 'png' ? await zipPngSequence(stage, doc, { ...opts, onProgress }) : await encodeWithFfmpeg(stage, doc, { ...opts, onProgress }));
+    } finally { stage.dispose(); }
+  }
+  return out;
+}
+
+async function storyWav(stage: ExportStage, doc: ProjectDoc) {
+  // Story audio (message sounds + narration + music), same mix the preview plays
+  const mix = await renderStoryAudio(stage.story, doc.audio, stage.story.clips);
+  return mix ? audioBufferToWav(mix) : null;
+}
+
+/** frame_00000.png … plus audio.wav when the story has sound. Repeated frames reuse the previous PNG bytes. */
+async function zipPngSequence(stage: ExportStage, doc: ProjectDoc, { signal, onProgress }: ExportOptions): Promise<Blob> {
+  const zip = createZip();
+  const t0 = performance.now();
+  let png: Uint8Array<ArrayBuffer> | null = null;
+  await captureStory(stage, async (canvas, i, fresh) => {
+    if (fresh || !png) png = await canvasToPng(canvas);
+    zip.add(`frame_${String(i).padStart(5, '0')}.png`, png);
+  }, { signal, onProgress: (done, unique) => onProgress({ phase: 'Capturing frames', done, total: stage.frameCount, unique, startedAt: t0 }) });
+  onProgress({ phase: 'Mixing audio', done: 0, total: 1, startedAt: performance.now() });
+  const wav = await storyWav(stage, doc);
+  if (wav) zip.add('audio.wav', wav);
+  return zip.finish();
+}
+
+/**
+ * MP4 / WebM / GIF via ffmpeg.wasm. For MP4, frames stream into WebCodecs' H.264 encoder when the browser has one (ffmpeg
+ * then only muxes video + audio); otherwise each unique frame goes into the ffmpeg.wasm FS as a PNG the moment it's
+ * captured and a concat list holds it for its run length. The frame sequence is never buffered in JS. Aborting the
+ * signal stops capture and ffmpeg.
+ */
+async function encodeWithFfmpeg(stage: ExportStage, doc: ProjectDoc, { signal, onProgress }: ExportOptions): Promise<Blob> {
+  const format = doc.output.format;
+  const { short, ext, mime } = EXPORT_FORMATS[format];
+  const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+  const ffmpeg = new FFmpeg();
+  const stop = () => ffmpeg.terminate();
+  signal.addEventListener('abort', stop);
+  let h264: Awaited<ReturnType<typeof webCodecsH264>> = null;
+  try {
+    if (format === 'mp4') h264 = await webCodecsH264(stage.size.w, stage.size.h, stage.fps);
+    const loaded = ffmpeg.load(); // downloads the core while frames are captured
+    loaded.catch(() => {});
+    const t0 = performance.now();
+    const capturing = (done: number, unique: number) => onProgress({ phase: h264 ? 'Capturing + encoding (WebCodecs)' : 'Capturing frames', done, total: stage.frameCount, unique, startedAt: t0 });
+    let videoArgs: string[];
+    if (h264) {
+      const enc = h264;
+      await captureStory(stage, (canvas, i) => enc.encode(canvas, i), { signal, onProgress: capturing });
+      const stream = await enc.finish();
+      await loaded;
+      await ffmpeg.writeFile('video.h264', stream);
+      videoArgs = ['-framerate', String(stage.fps), '-i', 'video.h264'];
+    } else {
+      await loaded;
+      const runs: number[] = []; // frames each unique PNG is held for
+      const name = (k: number) => `u_${String(k).padStart(5, '0')}.png`;
+      await captureStory(stage, async (canvas, _i, fresh) => {
+        if (fresh) { await ffmpeg.writeFile(name(runs.length), await canvasToPng(canvas)); runs.push(0); }
+        runs[runs.length - 1]++;
+      }, { signal, onProgress: capturing });
+      // concat demuxer ignores the last entry's duration unless the file is listed once more
+      const list = runs.map((n, k) => `file '${name(k)}'\nduration ${(n / stage.fps).toFixed(6)}`).concat(`file '${name(runs.length - 1)}'`).join('\n');
+      await ffmpeg.writeFile('frames.txt', new TextEncoder().encode(list));
+      videoArgs = ['-f', 'concat', '-safe', '0', '-i', 'frames.txt'];
+    }
+    signal.throwIfAborted();
+
+    const audioCodec = audioEncodeArgs(format);
+    onProgress({ phase: 'Mixing audio', done: 0, total: 1, startedAt: performance.now() });
+    const wav = audioCodec ? await storyWav(stage, doc) : null;
+    if (wav) await ffmpeg.writeFile('audio.wav', wav);
+    const audioArgs = wav && audioCodec ? ['-i', 'audio.wav', '-map', '0:v', '-map', '1:a', ...audioCodec] : [];
+
+    const t1 = performance.now();
+    ffmpeg.on('progress', ({ progress }) => onProgress({ phase: `${h264 ? 'Muxing' : 'Encoding'} ${short}`, done: Math.round(clamp01(progress) * 1000), total: 1000, startedAt: t1 }));
+    const out = `out.${ext}`;
+    await ffmpeg.exec([...videoArgs, ...audioArgs, ...(h264 ? MP4_COPY_ARGS : videoEncodeArgs(format, stage.size.w, stage.size.h, stage.fps)), out]);
+    const data: any = await ffmpeg.readFile(out);
+    return new Blob([data.buffer ?? data], { type: mime });
+  } finally {
+    signal.removeEventListener('abort', stop);
+    h264?.close();
+    ffmpeg.terminate();
+  }
+}
+
+// ---------------- Stills (screenshots, full-chat images, thumbnails) ----------------
+/** Big title text over one frame of the story: a cover image for uploads */
+export type ThumbnailSettings = { title: string; at_s?: number; fontPx: number; position: ThumbnailPosition; color: string; box: boolean; dim: number };
+export type ThumbnailPosition = 'top' | 'middle' | 'bottom';
+const THUMB_POSITIONS: ThumbnailPosition[] = ['top', 'middle', 'bottom'];
+const DEFAULT_THUMBNAIL: ThumbnailSettings = { title: '', fontPx: 130, position: 'middle', color: '#FFFFFF', box: false, dim: 0.35 };
+export type StillKind = 'frame' | 'tall' | 'thumbnail';
+
+/** The thumbnail's title over the canvas (dimmed by `dim`), in 1080-wide design px like the captions */
+function ThumbnailTitle({ thumb, canvas }: { thumb: ThumbnailSettings; canvas: CanvasSize }) {
+  const s = Math.min(canvas.w, canvas.h) / CANVAS.w;
+  return (
+    <div style={{ position: "absolute", left: 0, top: 0, width: canvas.w, height: canvas.h, boxSizing: "border-box", padding: `${Math.round(canvas.h * 0.08)}px ${Math.round(canvas.w * 0.06)}px`, display: "flex", alignItems: "center",
+      justifyContent: thumb.position === 'top' ? "flex-start" : thumb.position === 'bottom' ? "flex-end" : "center", flexDirection: "column", background: thumb.dim > 0 ? `rgba(0,0,0,${thumb.dim})` : undefined, zIndex: 6 }}>
+      {thumb.title.trim() && (
+        <div style={{ fontFamily: FONT, fontWeight: 900, fontSize: Math.round(thumb.fontPx * s), lineHeight: 1.08, letterSpacing: "-1px", textAlign: "center", whiteSpace: "pre-wrap", color: thumb.box ? readableOn(thumb.color) : thumb.color,
+          background: thumb.box ? thumb.color : undefined, padding: thumb.box ? `${Math.round(16 * s)}px ${Math.round(34 * s)}px` : undefined, borderRadius: Math.round(22 * s), textShadow: thumb.box ? undefined : "0 4px 18px rgba(0,0,0,.7)" }}>{thumb.title}</div>
+      )}
+    </div>
+  );
+}
+
+// Browsers draw a blank canvas past these (Chrome: 32,767 px a side, 268M px in all)
+const MAX_CANVAS_SIDE = 32767;
+const MAX_CANVAS_AREA = 268435456;
+
+/**
+ * One PNG from the export stage, so it matches the preview and the video: the frame at `atMs` of a part, the whole
+ * conversation as one tall image (every scene at its end, nothing scrolled away, parts ignored), or the thumbnail
+ * (the frame at `thumbnail.at_s`, default the last, under its title). Alpha formats give a transparent PNG.
+ */
+async function renderStill(doc: ProjectDoc, kind: StillKind, { part = 0, atMs, signal }: { part?: number; atMs?: number; signal?: AbortSignal } = {}): Promise<Blob> {
+  const tall = kind === 'tall', title = kind === 'thumbnail' ? doc.thumbnail ?? DEFAULT_THUMBNAIL : undefined;
+  const stage = await mountExportStage(tall ? { ...doc, pacing: { ...doc.pacing, partS: 0 } } : doc, tall ? 0 : part, { tall, title });
+  try {
+    const at = tall ? stage.totalMs : atMs ?? (title?.at_s != null ? title.at_s * 1000 : stage.totalMs);
+    signal?.throwIfAborted();
+    await stage.seek(Math.max(0, Math.min(stage.totalMs, at)), signal);
+    const h = stage.height();
+    if (h > MAX_CANVAS_SIDE || h * stage.size.w > MAX_CANVAS_AREA) {
+      throw new Error(`The full chat is ${h.toLocaleString('en-US')} px tall, more than a browser can draw as one image (${Math.min(MAX_CANVAS_SIDE, Math.floor(MAX_CANVAS_AREA / stage.size.w)).toLocaleString('en-US')} px at this width). Pick a narrower canvas or export fewer messages.`);
+    }
+    const canvas = await stage.rasterize();
+    signal?.throwIfAborted();
+    return new Blob([await canvasToPng(canvas)], { type: 'image/png' });
+  } finally { stage.dispose(); }
+}
+
+// ---------------- Batch rendering (one template, many rows) ----------------
+export type BatchRow = Record<string, string>;
+export type BatchItem = { name: string; row: BatchRow; status: 'queued' | 'rendering' | 'done' | 'failed'; attempts: number; error?: string; files?: Blob[]; ext?: string };
+const BATCH_ATTEMPTS = 3; // tries per row before it is marked failed
+const PLACEHOLDER_RE = /\{\{\s*([\w.\- ]+?)\s*\}\}/g;
+const hasKey = (o: object, k: string) => Object.prototype.hasOwnProperty.call(o, k);
+
+/** RFC 4180-style CSV: quoted fields may hold commas, newlines and "" escapes. Blank lines are skipped. */
+function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, ''); // Excel's BOM
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  const endRow = () => { row.push(field); field = ''; if (row.some((f) => f !== '')) rows.push(row); row = []; };
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) { if (c !== '"') field += c; else if (src[i + 1] === '"') { field += '"'; i++; } else quoted = false; }
+    else if (c === '"' && field === '') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') { if (c === '\r' && src[i + 1] === '\n') i++; endRow(); }
+    else field += c;
+  }
+  if (quoted) throw new Error('CSV ends inside a quoted field.');
+  endRow();
+  return rows;
+}
+
+/** Rows from a JSON array of objects (or `{ rows: [...] }`) or a CSV whose first line names the columns. Values become strings. */
+function parseBatchRows(text: string, fileName = ''): BatchRow[] {
+  let rows: BatchRow[];
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    let d: unknown;
+    try { d = JSON.parse(text); } catch (e: any) { throw new Error(`Not valid JSON: ${e?.message || e}`); }
+    if (isObj(d) && Array.isArray(d.rows)) d = d.rows;
+    if (!Array.isArray(d) || !d.every(isObj)) throw new Error('JSON rows must be an array of objects.');
+    rows = d.map((r) => Object.fromEntries(Object.entries(r).map(([k, v]) => [k.trim(), v == null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v)])));
+  } else {
+    const [head, ...body] = parseCsv(text);
+    if (!head) throw new Error('CSV is empty.');
+    const cols = head.map((h) => h.trim());
+    const dup = cols.find((c, i) => c && cols.indexOf(c) !== i);
+    if (dup) throw new Error(`Column "${dup}" appears twice.`);
+    rows = body.map((r, n) => {
+      if (r.length > cols.length) throw new Error(`Row ${n + 1} has ${r.length} fields but the header names ${cols.length}.`);
+      return Object.fromEntries(cols.map((c, i) => [c, r[i] ?? '']));
     });
-  }, [messages, timeScale]);
-  const timeMs = exportMode && typeof timeOverrideMs === 'number' ? timeOverrideMs : t;
-  const visibleCount = useMemo(() => { let i = 0; while (i < schedule.length && timeMs >= schedule[i].at - 5) i++; return i; }, [timeMs, schedule]);
+  }
+  if (!rows.length) throw new Error('No rows found.');
+  return rows;
+}
+
+/** `{{column}}` names used anywhere in a template's text (contact name, time line, messages, …; data URLs are skipped) */
+function templatePlaceholders(raw: unknown): string[] {
+  const found = new Set<string>();
+  const walk = (v: unknown) => {
+    if (typeof v === 'string') { if (!v.startsWith('data:')) for (const m of v.matchAll(PLACEHOLDER_RE)) found.add(m[1]); }
+    else if (v && typeof v === 'object') Object.values(v).forEach(walk);
+  };
+  walk(raw);
+  return [...found];
+}
+
+/** The template with every `{{column}}` replaced from the row, parsed as a project. A placeholder without a column is an error. */
+function fillTemplate(raw: unknown, row: BatchRow): ProjectDoc {
+  const missing = new Set<string>();
+  const fill = (v: unknown): unknown => {
+    if (typeof v === 'string') return v.startsWith('data:') ? v : v.replace(PLACEHOLDER_RE, (_, k: string) => (hasKey(row, k) ? row[k] : (missing.add(k), '')));
+    if (Array.isArray(v)) return v.map(fill);
+    return v && typeof v === 'object' ? Object.fromEntries(Object.entries(v).map(([k, x]) => [k, fill(x)])) : v;
+  };
+  const doc = fill(raw);
+  if (missing.size) throw new Error(`No column for ${[...missing].map((k) => `{{${k}}}`).join(', ')}.`);
+  return parseProject(doc);
+}
 
-  // timeline runner
+/** One queued item per row, named by its `file` (or `name`) column or row-001…, file-safe and unique */
+function batchItems(rows: BatchRow[]): BatchItem[] {
+  const used = new Set<string>();
+  return rows.map((row, i) => {
+    const base = (row.file || row.name || '').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || `row-${String(i + 1).padStart(3, '0')}`;
+    let name = base;
+    for (let k = 2; used.has(name.toLowerCase()); k++) name = `${base}-${k}`;
+    used.add(name.toLowerCase());
+    return { name, row, status: 'queued', attempts: 0 };
+  });
+}
+
+/**
+ * Render every queued item in order through renderExport, retrying a failed render up to BATCH_ATTEMPTS times.
+ * Rows that don't fill the template fail at once. Aborting stops the current item and leaves it queued.
+ */
+async function renderBatch(template: unknown, items: BatchItem[], opts: ExportOptions & { onItem: (i: number, item: BatchItem) => void }) {
+  for (let i = 0; i < items.length; i++) {
+    let item = items[i];
+    if (item.status !== 'queued') continue;
+    let doc: ProjectDoc;
+    try { doc = fillTemplate(template, item.row); }
+    catch (e: any) { opts.onItem(i, { ...item, status: 'failed', error: e?.message || String(e) }); continue; }
+    for (let attempt = 1; ; attempt++) {
+      opts.signal.throwIfAborted();
+      opts.onItem(i, item = { ...item, status: 'rendering', attempts: attempt }); // a retry keeps the last error (shown on hover)
+      try {
+        const files = await renderExport(doc, opts);
+        opts.onItem(i, { ...item, status: 'done', error: undefined, files, ext: EXPORT_FORMATS[doc.output.format].ext });
+        break;
+      } catch (e: any) {
+        if (opts.signal.aborted) { opts.onItem(i, { ...item, status: 'queued', attempts: 0 }); throw e; }
+        item = { ...item, error: e?.message || String(e) };
+        if (attempt >= BATCH_ATTEMPTS) { opts.onItem(i, { ...item, status: 'failed' }); break; }
+      }
+    }
+  }
+}
+
+/** Every finished item's files in one STORE zip: <name>.<ext>, or <name>-part1.<ext> … for split stories */
+async function zipBatch(items: BatchItem[]): Promise<Blob> {
+  const zip = createZip();
+  for (const it of items) {
+    for (const [k, f] of (it.files || []).entries()) await zip.addBlob(`${it.name}${it.files!.length > 1 ? `-part${k + 1}` : ''}.${it.ext}`, f);
+  }
+  return zip.finish();
+}
+
+/**
+ * Headless entry (`?headless`) for scripts/render.mjs: exposes window.__fts so a browser driver can
+ * load a manifest and pull PNG frames captured by exactly the same stage as the in-browser export.
+ */
+function HeadlessRenderer() {
+  const [status, setStatus] = useState('idle');
   useEffect(() => {
-    // Disable internal timeline when externally controlled (export)
-    if (exportMode && typeof timeOverrideMs === 'number') return;
-    if (!playing) { if (raf.current) cancelAnimationFrame(raf.current); return; }
-    const step = (now: number) => { if (startRef.current == null) startRef.current = now - t; const elapsed = now - startRef.current; setT(elapsed); raf.current = requestAnimationFrame(step); };
-    raf.current = requestAnimationFrame(step); return () => { if (raf.current) cancelAnimationFrame(raf.current); };
-  }, [playing, t, exportMode, timeOverrideMs]);
-
-  // bottom motion & pre-overflow reset (no scroll; height grows)
+    let stage: ExportStage | null = null;
+    let doc: ProjectDoc | null = null;
+    let lastKey = ''; // key of the previously returned frame
+    (window as any).__fts = {
+      /** Load part `part` (0-based) of a manifest; the result's `parts` says how many the pacing splits it into */
+      async load(raw: unknown, part = 0) {
+        stage?.dispose(); lastKey = '';
+        doc = parseProject(raw);
+        stage = await mountExportStage(doc, part);
+        setStatus('loaded');
+        const f = doc.output.format;
+        // Encoder settings travel with the manifest: the CLI passes these to native ffmpeg (null = PNG files, no ffmpeg)
+        return {
+          fps: stage.fps, width: stage.size.w, height: stage.size.h, totalMs: stage.totalMs, frameCount: stage.frameCount, part: stage.story.part, parts: stage.story.parts,
+          format: f, ext: EXPORT_FORMATS[f].ext, videoArgs: f === 'png' ? null : videoEncodeArgs(f, stage.size.w, stage.size.h, stage.fps), audioArgs: audioEncodeArgs(f),
+        };
+      },
+      /** Story audio as base64 WAV, or null when silent */
+      async audio() {
+        if (!doc || !stage) throw new Error('No manifest loaded');
+        const buf = await renderStoryAudio(stage.story, doc.audio, stage.story.clips);
+        if (!buf) return null;
+        const wav = audioBufferToWav(buf); let bin = '';
+        for (let i = 0; i < wav.length; i += 0x8000) bin += String.fromCharCode(...wav.subarray(i, i + 0x8000));
+        return btoa(bin);
+      },
+      /** Base64 PNG of frame i, or '' when it is identical to the previous frame requested (call in order) */
+      async frame(i: number) {
+        if (!stage) throw new Error('No manifest loaded');
+        const key = await stage.seek(stage.frameTime(i));
+        if (key === lastKey) return '';
+        lastKey = key;
+        const canvas = await stage.rasterize();
+        return canvas.toDataURL('image/png').slice('data:image/png;base64,'.length);
+      },
+      dispose() { stage?.dispose(); stage = null; doc = null; setStatus('idle'); },
+    };
+    return () => { stage?.dispose(); delete (window as any).__fts; };
+  }, []);
+  return <div id="headless-status" data-status={status} style={{ fontFamily: FONT, padding: 12 }}>Fake Text Story headless renderer: {status}</div>;
+}
+
+// ---------------- Timeline editor (under the live preview) ----------------
+/** The live preview's clock: FakeTextPreview publishes its time here and installs seek/toggle; the timeline panel listens */
+export type PreviewClock = { ms: number; playing: boolean; listeners: Set<() => void>; seek?: (ms: number) => void; toggle?: () => void };
+const createPreviewClock = (): PreviewClock => ({ ms: 0, playing: false, listeners: new Set() });
+function usePreviewClock(clock: PreviewClock) {
+  const [, setTick] = useState(0);
+  useEffect(() => { const f = () => setTick((n) => n + 1); clock.listeners.add(f); return () => { clock.listeners.delete(f); }; }, [clock]);
+  return clock;
+}
+const SNAP_OPTIONS = [0, 0.1, 0.25, 0.5, 1];
+const RULER_STEPS_S = [0.5, 1, 2, 5, 10, 30, 60];
+/** Later changes to a sent bubble, drawn as markers on its block */
+const AFTER_MARKS = [
+  { at: 'editAt', on: (m: Message) => m.edited_text != null, glyph: '✎', label: 'Edited', color: '#A78BFA' },
+  { at: 'unsendAt', on: (m: Message) => !!m.unsent, glyph: '✕', label: 'Unsent', color: '#D1D5DB' },
+  { at: 'failAt', on: (m: Message) => !!m.failed && m.speaker === 'SENDER', glyph: '!', label: 'Not delivered', color: '#EF4444' },
+] as const;
+
+/**
+ * Messages as blocks at their scheduled (paced) times. Dragging a block changes the delay after the message before it;
+ * `onDelay` gets that message's id and its new delay_s (unscaled seconds). Blocks whose gap is set by narration are fixed.
+ */
+function TimelineEditor({ messages, timeScale, totalMs, introMs = 0, clock, selectedId, locked, onSelect, onDelay }: { messages: Message[]; timeScale: number; totalMs: number; introMs?: number; clock: PreviewClock; selectedId: string | null; locked: Set<string>; onSelect: (id: string) => void; onDelay: (id: string, delayS: number) => void }) {
+  const { ms, playing } = usePreviewClock(clock);
+  const [pxPerS, setPxPerS] = useState(40);
+  const [snapS, setSnapS] = useState(0.25);
+  const [drag, setDrag] = useState<{ i: number; x0: number; dx: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const schedule = useMemo(() => buildSchedule(messages, timeScale).entries, [messages, timeScale]);
+  const pxPerMs = pxPerS / 1000;
+  const lead = introMs * pxPerMs; // messages start after the intro
+  const width = Math.ceil(totalMs * pxPerMs) + 40;
+  const LANE = 30, RULER = 18;
+  // keep the playhead in view while playing
   useEffect(() => {
-    const outer = bodyRef.current; const inner = measureRef.current; if (!outer || !inner) return;
-    const maxChatH = Math.min(CHAT_MAX, Math.floor(CANVAS.h * 0.85 - HEADER_H - HUD_Y));
-    const contentH = Math.min(maxChatH, inner.scrollHeight + 12);
-    const from = revealH; const to = Math.max(100, Math.min(contentH, maxChatH)); if (Math.abs(to - from) < 1) return;
-    const steps = 10, dt = 28; let i = 0; const delta = (to - from) / steps;
-    const id = setInterval(() => {
-      i++; const v = i < steps ? from + delta * i : to; setRevealH(Math.round(v));
-      if (i >= steps && to >= maxChatH - 8) setTimeout(() => { setRevealH(Math.max(100, Math.round(maxChatH * 0.5))); startRef.current = performance.now(); setT(0); }, 500);
-    }, dt);
-    return () => clearInterval(id);
-  }, [visibleCount, CHAT_MAX, HEADER_H, HUD_Y]);
+    const el = scrollRef.current; if (!el || !playing) return;
+    const x = ms * pxPerMs; if (x < el.scrollLeft || x > el.scrollLeft + el.clientWidth - 24) el.scrollLeft = Math.max(0, x - 40);
+  }, [ms, playing, pxPerMs]);
 
-  // transport (preview-only)
-  const onTogglePlay = () => { const np = !playing; setPlaying(np); onTogglePlayExternal?.(np); };
-  const onSeekRatio = (r: number) => { const v = clamp01(r) * durationMs; setT(v); startRef.current = performance.now() - v; };
-  const progress = clamp01(timeMs / durationMs);
-
-  // Base surfaces by style & mode
-  const palettes = {
-    WHATSAPP: {
-      DARK: { surface: '#111B21', header: '#202C33', border: '#0B141A', icon: '#FFFFFF', recv: '#1F2C34', send: '#075E54', text: '#E9EDEF' },
-      LIGHT: { surface: '#F0F2F5', header: '#FFFFFF', border: '#E7E9EC', icon: '#111B21', recv: '#FFFFFF', send: '#D9FDD3', text: '#1F2C34' },
-    },
-    IMESSAGE: {
-      DARK: { surface: '#0A0A0A', header: '#1F1F20', border: '#2A2A2A', icon: BLUE, recv: '#1C1C1E', send: BLUE, text: '#FFFFFF' },
-      LIGHT: { surface: '#FFFFFF', header: '#F7F7F8', border: '#E5E5EA', icon: BLUE, recv: '#E9E9EB', send: '#0A84FF', text: '#111111' },
-    }
-  } as const;
-  const pal = palettes[STYLE][MODE];
-  const surfaceColor = pal.surface;
-  const headerColor = pal.header;
-  const headerBorder = pal.border;
-  const iconColor = pal.icon;
-  const iconSize = STYLE === 'WHATSAPP' ? Math.max(ICON, Math.round(ICON * 1.2)) : ICON;
-  const avatarDim = STYLE === 'WHATSAPP' ? Math.max(AVATAR, Math.round(AVATAR * 1.08)) : AVATAR;
-  const nameFontSize = STYLE === 'WHATSAPP' ? Math.round(22 * S) : Math.round(20 * S);
-
-  // Text colors per mode
-  const textPrimary = MODE === 'DARK' ? '#FFFFFF' : '#111111';
-  const tsColor = MODE === 'DARK' ? '#A9A9AD' : '#6B7280';
+  // where a drag of block i lands: its show time snapped to the grid (timeline ms), and the delay that produces it
+  const dragTarget = (i: number, dxPx: number) => {
+    const show = schedule[i].show;
+    let to = Math.max(schedule[i - 1].show, show + dxPx / pxPerMs);
+    if (snapS > 0) to = Math.round(to / (snapS * 1000)) * snapS * 1000;
+    const delayS = Math.max(0, Math.round(((messages[i - 1].delay_s ?? 3) + ((to - show) * timeScale) / 1000) * 100) / 100);
+    return { shiftMs: to - show, delayS };
+  };
+  const canDrag = (i: number) => i > 0 && !locked.has(messages[i - 1].id);
+  const shiftPx = (j: number) => (drag && j >= drag.i ? dragTarget(drag.i, drag.dx).shiftMs * pxPerMs : 0);
+  const onBlockDown = (e: React.PointerEvent, i: number) => { e.stopPropagation(); (e.target as Element).setPointerCapture?.(e.pointerId); setDrag({ i, x0: e.clientX, dx: 0 }); };
+  const onBlockMove = (e: React.PointerEvent) => { if (drag && canDrag(drag.i)) setDrag({ ...drag, dx: e.clientX - drag.x0 }); };
+  const onBlockUp = () => {
+    if (!drag) return;
+    const { i, dx } = drag; setDrag(null);
+    if (Math.abs(dx) < 3) { onSelect(messages[i].id); return; } // a click, not a drag
+    if (canDrag(i)) onDelay(messages[i - 1].id, dragTarget(i, dx).delayS);
+  };
+  const onTrackDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    clock.seek?.(Math.max(0, Math.min(totalMs, (e.clientX - r.left) / pxPerMs)));
+  };
+  const step = RULER_STEPS_S.find((s) => s * pxPerS >= 48) ?? 60;
+  const ticks = Array.from({ length: Math.floor(totalMs / 1000 / step) + 1 }, (_, k) => k * step);
 
   return (
-    <div style={{ position: "relative", width: CANVAS.w, height: CANVAS.h, background: bgColor, overflow: "hidden" }}>
-      {/* HUD */}
-      <div style={{ position: "absolute", left: HUD_X, top: HUD_Y, width: HUD_W, borderRadius: HUD_RADIUS, background: surfaceColor, boxShadow: "0 18px 60px rgba(0,0,0,.35)", overflow: "hidden" }}>
-        {/* Header */}
-        {STYLE === 'WHATSAPP' ? (
-          <div style={{ height: HEADER_H, borderBottom: `1px solid ${headerBorder}`, background: headerColor, display: 'flex', alignItems: 'center', gap: HEADER_GAP, padding: `0 ${HEADER_PAD_H}px` }}>
-            <button aria-label="Back" onClick={() => {}} style={hdrIconBtn}><ChevronLeft color={iconColor} size={iconSize} /></button>
-            <div style={{ width: avatarDim, height: avatarDim, borderRadius: avatarDim / 2, overflow: "hidden", background: "#C7C7CC", color: "#FFFFFF", display: "flex", alignItems: "center", justifyContent: "center", fontWeight: 600, flexShrink: 0 }}>
-              {avatarUrl ? (<img src={avatarUrl} alt="" style={{ width: "100%", height: "100%", objectFit: "cover", borderRadius: '50%' }} />) : (initials(contactName))}
-            </div>
-            <div style={{ display:'flex', flexDirection:'column', minWidth: 0 }}>
-              <div style={{ fontFamily: FONT, fontWeight: 700, fontSize: Math.max(12, HEADER_NAME_F), color: pal.text, letterSpacing: "-0.2px", whiteSpace:'nowrap', overflow:'hidden', textOverflow:'ellipsis' }}>{contactName}</div>
-              <div style={{ fontFamily: FONT, fontSize: Math.round(12 * S), color: '#00A884', marginTop: 2 }}>Online</div>
-            </div>
-            <div style={{ marginLeft: 'auto', display:'flex', alignItems:'center', gap: 8 }}>
-              <button aria-label="Video" onClick={() => {}} style={hdrIconBtn}><VideoOutline color={iconColor} size={iconSize} /></button>
-              <button aria-label="Call" onClick={() => {}} style={hdrIconBtn}><PhoneOutline color={iconColor} size={iconSize} /></button>
-            </div>
-          </div>
-        ) : (
-          <div style={{ position: "relative", height: HEADER_H, borderBottom: `1px solid ${headerBorder}`, background: headerColor }}>
-            <button aria-label="Back" onClick={() => {}} style={btnStyle({ left: 16, width: ICON + 22, height: ICON + 22 })}>
-              <ChevronLeft color={BLUE} size={ICON} />
-            </button>
-            <button aria-label="FaceTime" onClick={() => {}} style={btnStyle({ right: 16, width: ICON + 22, height: ICON + 22 })}>
-              <FaceTimeLogoOutline color={BLUE} size={ICON} />
-            </button>
-            <div style={{ position: "absolute", inset: 0, display: "flex", alignItems: "center", justifyContent: "center", flexDirection: "column", gap: 6 }}>
-              <div style={{ width: AVATAR, height: AVATAR, borderRadius: AVATAR / 2, overflow: "hidden", background: "#C7C7CC", color: "#FFFFFF", display: "flex", alignItems: "center", justifyContent: "center", fontWeight: 600, flexShrink: 0 }}>
-                {avatarUrl ? (<img src={avatarUrl} alt="" style={{ width: "100%", height: "100%", objectFit: "cover", borderRadius: '50%' }} />) : (initials(contactName))}
-              </div>
-              <div style={{ fontFamily: FONT, fontWeight: 700, fontSize: Math.max(12, HEADER_NAME_F), color: pal.text, letterSpacing: "-0.2px" }}>{contactName} <span style={{marginLeft:6, opacity:.9}}>&rsaquo;</span></div>
-            </div>
-          </div>
-        )}
-
-        {/* Chat body: HEIGHT grows (no scrolling) */}
-        <div ref={bodyRef} style={{ height: revealH, padding: `${Math.round(10*S)}px ${Math.round(14*S)}px ${Math.round(20*S)}px ${Math.round(14*S)}px`, overflow: "hidden", background: surfaceColor, pointerEvents: "none", backgroundImage: STYLE==='WHATSAPP'? 'radial-gradient(rgba(255,255,255,0.035) 1px, transparent 1px)': undefined, backgroundSize: STYLE==='WHATSAPP'? '18px 18px': undefined }}>
-          <div ref={measureRef}>
-            {/* Row 0: time separator INSIDE chat */}
-            <div style={{ display: "flex", justifyContent: "center", paddingTop: Math.round(6*S), paddingBottom: Math.round(10*S) }}>
-              <div style={{ fontFamily: FONT, fontSize: TS_F, fontWeight: 500, color: tsColor }}>{timeLine}</div>
-            </div>
-            {messages.slice(0, visibleCount).map((m) => (
-              <Bubble key={m.id} m={m} maxPct={BUB_MAX_PCT} r={BUB_R} ph={BUB_PH} pv={BUB_PV} f={BUB_F} style={STYLE} mode={MODE} />
-            ))}
-          </div>
+    <div style={{ width: "100%", padding: 10, borderRadius: 12, background: SURFACE, border: `1px solid ${BORDER}`, boxSizing: "border-box" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, color: SUBTEXT }}>
+        <button onClick={() => clock.toggle?.()} style={btnMini} aria-label={playing ? "Pause" : "Play"}>{playing ? '❚❚' : '▶'}</button>
+        <span style={{ flex: 1, fontVariantNumeric: "tabular-nums" }}>{fmt(ms)} / {fmt(totalMs)}</span>
+        <button onClick={() => setPxPerS((z) => Math.max(8, Math.round(z / 1.5)))} style={btnMini} aria-label="Zoom out">−</button>
+        <button onClick={() => setPxPerS((z) => Math.min(240, Math.round(z * 1.5)))} style={btnMini} aria-label="Zoom in">+</button>
+        <select value={snapS} onChange={(e) => setSnapS(Number(e.target.value))} style={{ ...sel, width: "auto", marginTop: 0, padding: "4px 6px" }} aria-label="Snap">
+          {SNAP_OPTIONS.map((s) => (<option key={s} value={s}>{s ? `Snap ${s}s` : 'No snap'}</option>))}
+        </select>
+      </div>
+      <div ref={scrollRef} style={{ marginTop: 8, overflowX: "auto", overflowY: "hidden" }}>
+        <div onPointerDown={onTrackDown} style={{ position: "relative", width, height: RULER + 2 * LANE + 8, cursor: "pointer", userSelect: "none" }}>
+          {ticks.map((s) => (
+            <div key={s} style={{ position: "absolute", left: s * pxPerS, top: 0, height: "100%", borderLeft: "1px solid rgba(255,255,255,.07)", paddingLeft: 3, fontSize: 10, color: SUBTEXT }}>{fmt(s * 1000)}</div>
+          ))}
+          {introMs > 0 && (<div title="Intro (lock screen)" style={{ position: "absolute", left: 0, top: RULER + 2, width: Math.max(0, lead - 2), height: 2 * LANE - 4, boxSizing: "border-box", borderRadius: 6, padding: "0 6px", overflow: "hidden", whiteSpace: "nowrap",
+            background: "rgba(168,85,247,.28)", border: "1px dashed rgba(168,85,247,.8)", color: "#E9D5FF", fontSize: 11, lineHeight: `${2 * LANE - 6}px` }}>Intro</div>)}
+          {schedule.map((e, i) => {
+            const m = messages[i], next = schedule[i + 1];
+            const top = RULER + (m.speaker === 'SENDER' ? LANE : 0) + 2;
+            const x = lead + e.show * pxPerMs + shiftPx(i);
+            const marks = AFTER_MARKS.filter((k) => k.on(m));
+            const w = Math.max(14, ((next ? next.start : Math.max(e.show + 1000, e.tapbackAt, e.receiptAt, ...marks.map((k) => e[k.at]))) - e.show) * pxPerMs - 2);
+            const selected = m.id === selectedId, movable = canDrag(i);
+            return (
+              <React.Fragment key={m.id}>
+                {e.typingMs > 0 && (<div title="Typing" style={{ position: "absolute", left: lead + e.start * pxPerMs + shiftPx(i), top: top + 8, width: e.typingMs * pxPerMs, height: LANE - 20, borderRadius: 4, background: "repeating-linear-gradient(45deg, rgba(255,255,255,.18) 0 3px, transparent 3px 6px)" }} />)}
+                <div onPointerDown={(ev) => onBlockDown(ev, i)} onPointerMove={onBlockMove} onPointerUp={onBlockUp} onPointerCancel={() => setDrag(null)}
+                  title={`${m.speaker === 'SENDER' ? 'Sent' : 'Received'} at ${((introMs + e.show) / 1000).toFixed(2)}s${movable ? ' — drag to change the gap before it' : i > 0 ? ' (timed by narration)' : ''}`}
+                  style={{ position: "absolute", left: x, top, width: w, height: LANE - 4, boxSizing: "border-box", borderRadius: 6, padding: "0 6px", overflow: "hidden", whiteSpace: "nowrap", textOverflow: "ellipsis",
+                    background: m.speaker === 'SENDER' ? BLUE : '#3A3A3C', color: "#FFFFFF", fontSize: 11, lineHeight: `${LANE - 4}px`, border: `2px solid ${selected ? '#FFFFFF' : 'transparent'}`,
+                    cursor: movable ? (drag?.i === i ? "grabbing" : "grab") : "pointer", opacity: drag && drag.i !== i && i >= drag.i ? 0.7 : 1 }}>
+                  {m.text || m.kind || '…'}
+                </div>
+                {m.tapback && (<div title={`Reaction at ${((introMs + e.tapbackAt) / 1000).toFixed(2)}s`} style={{ position: "absolute", left: lead + e.tapbackAt * pxPerMs + shiftPx(i) - 4, top: top + LANE - 10, width: 8, height: 8, transform: "rotate(45deg)", background: "#F59E0B", pointerEvents: "none" }} />)}
+                {marks.map((k) => (<div key={k.at} title={`${k.label} at ${((introMs + e[k.at]) / 1000).toFixed(2)}s`} style={{ position: "absolute", left: lead + e[k.at] * pxPerMs + shiftPx(i) - 5, top: top - 6, width: 10, textAlign: "center", fontSize: 10, fontWeight: 800, lineHeight: "10px", color: k.color, pointerEvents: "none" }}>{k.glyph}</div>))}
+                {m.read_receipt && (<div title={`Receipt at ${((introMs + e.receiptAt) / 1000).toFixed(2)}s`} style={{ position: "absolute", left: lead + e.receiptAt * pxPerMs + shiftPx(i) - 4, top: top + LANE - 10, width: 8, height: 8, borderRadius: 4, background: "#10B981", pointerEvents: "none" }} />)}
+              </React.Fragment>
+            );
+          })}
+          <div style={{ position: "absolute", left: ms * pxPerMs, top: 0, bottom: 0, width: 2, background: "#EF4444", pointerEvents: "none" }} />
         </div>
       </div>
-
-      {/* Transport (outside HUD) */}
-      {!exportMode && (
-        <TransportBar progress={progress} durationMs={durationMs} onSeekRatio={onSeekRatio} onTogglePlay={onTogglePlay} />
-      )}
+      <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>Drag a block to change the pause before it; click one to edit it. Hatched = typing, ◆ reaction, ● receipt, ✎ edit, ✕ unsend, ! not delivered.{timeScale > 1 ? ' Fit pacing rescales the story after each drag.' : ''}</div>
     </div>
   );
 }
 
-function Bubble({ m, maxPct, r, ph, pv, f, style, mode }: { m: any; maxPct: number; r: number; ph: number; pv: number; f: number; style: 'IMESSAGE'|'WHATSAPP'; mode: 'DARK'|'LIGHT' }) {
-  const isSender = m.speaker === "SENDER";
-  const align = isSender ? "flex-end" : "flex-start";
-  const PALETTE = style === 'WHATSAPP'
-    ? (mode === 'DARK' ? { recv: '#1F2C34', send: '#075E54', text: '#E9EDEF' } : { recv: '#FFFFFF', send: '#D9FDD3', text: '#1F2C34' })
-    : (mode === 'DARK' ? { recv: '#1C1C1E', send: BLUE, text: '#FFFFFF' } : { recv: '#E9E9EB', send: '#0A84FF', text: '#111111' });
-  const bg = isSender ? PALETTE.send : PALETTE.recv;
-  let fg = PALETTE.text;
-  // Ensure iMessage blue bubbles always use white text in both light and dark modes
-  if (style === 'IMESSAGE' && isSender) fg = '#FFFFFF';
-  const small = Math.max(4, Math.round(r * 0.45));
-  const radiusCss = style === 'WHATSAPP'
-    ? (isSender ? `${r}px ${r}px ${small}px ${r}px` : `${r}px ${r}px ${r}px ${small}px`)
-    : `${r}px`;
-  const extraShadow = style === 'WHATSAPP' ? "none" : (isSender ? "0 1px 0 rgba(255,255,255,.08) inset" : "none");
-  const border = style === 'WHATSAPP' ? "none" : "none";
-  return (
-    <div style={{ display: "flex", justifyContent: align, marginTop: 12 }}>
-      <div style={{ maxWidth: pct(maxPct), background: bg, color: fg, padding: `${pv}px ${ph}px`, borderRadius: radiusCss as any, border, fontFamily: FONT, fontSize: f, lineHeight: 1.25, whiteSpace: "pre-wrap", boxShadow: extraShadow, backgroundClip: 'padding-box' }}>
-        {m.text}
-      </div>
-    </div>
-  );
+// ---------------- Undo history ----------------
+/**
+ * The builder state undo/redo covers: the script, the look and theme, the background and who the chat is with, plus the
+ * scene list (order, transitions, which one is open) and the layout
+ */
+export type EditState = {
+  messages: Message[]; settings: UISettings; background: BackgroundSettings; theme?: ThemeSettings; contactName: string; timeLine: string; avatarUrl?: string; chat: ChatInfo;
+  scenes: Scene[]; activeScene: number; layout: ProjectDoc['layout'];
+};
+type EditStep = { state: EditState; key: string; at: number };
+const HISTORY_LIMIT = 200;
+const COALESCE_MS = 700; // repeats of the same edit closer together than this (typing, slider drags) undo as one step
+
+const sameFields = (a: object, b: object) => {
+  const x = a as Record<string, unknown>, y = b as Record<string, unknown>, ka = Object.keys(x);
+  return ka.length === Object.keys(y).length && ka.every((k) => x[k] === y[k]);
+};
+/** What an edit touched, as a key ('' = nothing really changed); consecutive edits with the same key coalesce */
+function editKey(a: EditState, b: EditState): string {
+  const keys: string[] = [];
+  if (a.messages !== b.messages) {
+    const sameOrder = a.messages.length === b.messages.length && a.messages.every((m, i) => m.id === b.messages[i].id);
+    if (!sameOrder) keys.push('messages');
+    else { const ids = b.messages.filter((m, i) => !sameFields(m, a.messages[i])).map((m) => m.id); if (ids.length) keys.push(`messages:${ids.join(',')}`); }
+  }
+  if (a.settings !== b.settings) { const ks = (Object.keys(b.settings) as (keyof UISettings)[]).filter((k) => a.settings[k] !== b.settings[k]); if (ks.length) keys.push(`settings:${ks.join(',')}`); }
+  if (a.background !== b.background) keys.push('background');
+  if (a.theme !== b.theme) keys.push('theme');
+  if (a.contactName !== b.contactName || a.timeLine !== b.timeLine || a.avatarUrl !== b.avatarUrl || a.chat !== b.chat) keys.push('identity');
+  if (a.scenes !== b.scenes || a.activeScene !== b.activeScene) keys.push('scenes');
+  if (a.layout !== b.layout) keys.push('layout');
+  return keys.join('|');
 }
 
-function TransportBar({ progress, durationMs, onSeekRatio, onTogglePlay }: any) {
-  const barRef = useRef<HTMLDivElement | null>(null);
-  const [dragging, setDragging] = useState(false);
-  const [hoverRatio, setHoverRatio] = useState<number | null>(null);
-  const seekFromEvent = (e: MouseEvent | any) => { const bar = barRef.current; if (!bar) return 0; const rect = bar.getBoundingClientRect(); const ratio = clamp01((e.clientX - rect.left) / rect.width); onSeekRatio(ratio); return ratio; };
-  useEffect(() => { if (!dragging) return; const move = (e: MouseEvent) => seekFromEvent(e); const up = () => setDragging(false); window.addEventListener("mousemove", move as any); window.addEventListener("mouseup", up as any, { once: true } as any); return () => { window.removeEventListener("mousemove", move as any); window.removeEventListener("mouseup", up as any); }; }, [dragging]);
-  return (
-    <div style={{ position: "absolute", left: 24, right: 24, bottom: 24, display: "flex", alignItems: "center", gap: 20, padding: "16px 22px", borderRadius: 20, background: "rgba(0,0,0,.55)", boxShadow: "0 8px 22px rgba(0,0,0,.35)", zIndex: 10, backdropFilter: "saturate(180%) blur(10px)" }}>
-      <button aria-label="Play/Pause" onClick={onTogglePlay} style={transportBtn}><PlayPauseIcon /></button>
-      <div style={{ color: "#FFF", fontFamily: FONT, fontSize: 20, minWidth: 64, textAlign: "right" }}>{fmt(progress * durationMs)}</div>
-      <div ref={barRef} role="slider" tabIndex={0}
-        onKeyDown={(e)=>{ if(e.key==="ArrowRight") onSeekRatio(clamp01(progress+0.02)); if(e.key==="ArrowLeft") onSeekRatio(clamp01(progress-0.02)); }}
-        onMouseDown={(e)=>{ setDragging(true); const r = seekFromEvent(e.nativeEvent || e); setHoverRatio(r); }}
-        onMouseMove={(e)=>{ const bar = barRef.current; if(!bar) return; const rect = bar.getBoundingClientRect(); const r = clamp01(((e.nativeEvent||e).clientX - rect.left)/rect.width); setHoverRatio(r); }}
-        onMouseLeave={()=>setHoverRatio(null)}
-        style={{ flex: 1, height: 24, borderRadius: 12, background: "rgba(255,255,255,.22)", position: "relative", cursor: "pointer" }}>
-        <div style={{ position: "absolute", left: 0, top: 0, bottom: 0, width: pct(progress), background: "#FFFFFF", borderRadius: 10 }}/>
-        {hoverRatio!==null && (<div style={{ position: "absolute", top: -28, left: pct(hoverRatio), transform: "translateX(-50%)", background: "rgba(0,0,0,.75)", color: "#FFF", padding: "2px 6px", borderRadius: 6, fontSize: 12, pointerEvents: "none" }}>{fmt(hoverRatio*durationMs)}</div>)}
-        <div style={{ position: "absolute", top: "50%", left: calcPctOffset(progress, 10), width: 20, height: 20, transform: "translateY(-50%)", borderRadius: 10, background: "#FFFFFF", boxShadow: "0 1px 3px rgba(0,0,0,.35)" }}/>
-      </div>
-      <div style={{ color: "#FFF", fontFamily: FONT, fontSize: 20, minWidth: 56, textAlign: "left" }}>{fmt(durationMs)}</div>
-    </div>
-  );
+/**
+ * Undo/redo over EditState snapshots. Every change to `state` is recorded as a step holding the state before it, so no setter
+ * needs wrapping; `apply` restores a state. `reset(next)` applies `next` and starts a fresh history from it (opening or
+ * creating a project).
+ */
+function useEditHistory(state: EditState, apply: (s: EditState) => void) {
+  const h = useRef({ last: state, past: [] as EditStep[], future: [] as EditState[] });
+  const [can, setCan] = useState({ undo: false, redo: false });
+  const sync = () => { const { past, future } = h.current; setCan((c) => (c.undo === !!past.length && c.redo === !!future.length ? c : { undo: !!past.length, redo: !!future.length })); };
+  useEffect(() => {
+    const cur = h.current;
+    const key = editKey(cur.last, state);
+    if (key) {
+      const top = cur.past[cur.past.length - 1], now = Date.now();
+      if (top && top.key === key && now - top.at < COALESCE_MS && !cur.future.length) top.at = now;
+      else { cur.past.push({ state: cur.last, key, at: now }); if (cur.past.length > HISTORY_LIMIT) cur.past.shift(); }
+      cur.future = [];
+    }
+    cur.last = state; sync();
+  }, [state.messages, state.settings, state.background, state.theme, state.contactName, state.timeLine, state.avatarUrl, state.chat, state.scenes, state.activeScene, state.layout]);
+  // restored states are the recorded objects themselves, so the effect above sees no change and records nothing
+  const undo = () => { const cur = h.current, step = cur.past.pop(); if (!step) return; cur.future.push(cur.last); cur.last = step.state; apply(step.state); sync(); };
+  const redo = () => { const cur = h.current, next = cur.future.pop(); if (!next) return; cur.past.push({ state: cur.last, key: '', at: 0 }); cur.last = next; apply(next); sync(); };
+  // `next` becomes `last` now, so the render that shows it records nothing and the first real edit is undoable
+  const reset = (next: EditState) => { const cur = h.current; cur.last = next; cur.past = []; cur.future = []; apply(next); sync(); };
+  return { canUndo: can.undo, canRedo: can.redo, undo, redo, reset };
 }
 
 // ---------------- Builder + Wizard Tabs + Fixed Preview ----------------
+/** The message editor's "Afterwards" events, each toggled on its own so they combine as in scripts (an edit, then an unsend) */
+type AfterKind = 'edited' | 'unsent' | 'failed';
+const AFTER_EVENTS: Record<AfterKind, { label: string; delay: 'edit_delay_s' | 'unsend_delay_s' | 'fail_delay_s'; dflt: number }> = {
+  edited: { label: 'edited', delay: 'edit_delay_s', dflt: EVENT_DEFAULT_S.edit },
+  unsent: { label: 'unsent', delay: 'unsend_delay_s', dflt: EVENT_DEFAULT_S.unsend },
+  failed: { label: 'not delivered', delay: 'fail_delay_s', dflt: EVENT_DEFAULT_S.fail },
+};
+const AFTER_KEYS = Object.keys(AFTER_EVENTS) as AfterKind[];
+const hasAfter = (m: Message, k: AfterKind) => (k === 'edited' ? m.edited_text != null : k === 'unsent' ? !!m.unsent : !!m.failed && m.speaker === 'SENDER');
+const afterPatch = (m: Message, k: AfterKind, on: boolean): Partial<Message> => ({
+  [AFTER_EVENTS[k].delay]: on ? m[AFTER_EVENTS[k].delay] : undefined,
+  ...(k === 'edited' ? { edited_text: on ? m.edited_text ?? m.text : undefined } : { [k]: on || undefined }),
+});
+
 function FakeTextBuilder() {
   type Tab = "SCRIPT" | "ADVANCED" | "BACKGROUND" | "EXPORT";
   const [tab, setTab] = useState<Tab>("SCRIPT");
   const stepIndex = { SCRIPT: 1, ADVANCED: 2, BACKGROUND: 3, EXPORT: 4 }[tab];
 
   // Script state
+  const [projectName, setProjectName] = useState("Untitled story");
   const [contactName, setContactName] = useState("Anna");
   const [timeLine, setTimeLine] = useState("Today 7:42 PM");
   const [avatarUrl, setAvatarUrl] = useState<string | undefined>(undefined);
-  const [messages, setMessages] = useState<Array<{ id: string; speaker: "SENDER"|"RECEIVER"; text: string; delay_s?: number; read_receipt?: string; tapback?: string | null }>>([
+  const [chat, setChat] = useState<ChatInfo>({ ...DEFAULT_CHAT });
+  const [audio, setAudio] = useState<AudioSettings>({ ...DEFAULT_AUDIO });
+  const [messages, setMessages] = useState<Message[]>([
     { id: rid(), speaker: "SENDER", text: "Hey, you free?" },
     { id: rid(), speaker: "RECEIVER", text: "Yep! On my way." },
     { id: rid(), speaker: "SENDER", text: "Great—see you soon." },
@@ -349,9 +2970,143 @@ function FakeTextBuilder() {
   const [showSizing, setShowSizing] = useState(true);
 
   // Background & UI style
-  const [bgColor, setBgColor] = useState<string>("#D0021B");
+  const [background, setBackground] = useState<BackgroundSettings>({ ...DEFAULT_BACKGROUND });
+  const bgColor = background.value;
+  const setBgColor = (value: string) => setBackground((b) => ({ ...b, value }));
+  const setBgMediaField = (patch: Partial<NonNullable<BackgroundSettings['media']>>) => setBackground((b) => (b.media ? { ...b, media: { ...b.media, ...patch } } : b));
+  const setCaptions = (patch: Partial<NonNullable<BackgroundSettings['captions']>>) => setBackground((b) => ({ ...b, captions: { ...DEFAULT_CAPTIONS, ...b.captions, ...patch } }));
+  // decoded image/video for the preview (the export stage decodes its own copy)
+  const [bgMedia, setBgMedia] = useState<BackgroundMedia | null>(null);
+  const [bgError, setBgError] = useState<string>("");
+  useEffect(() => {
+    let live = true, loaded: BackgroundMedia | null = null;
+    loadBackgroundMedia(background).then((m) => { loaded = m; if (live) { setBgMedia(m); setBgError(""); } else m?.dispose(); })
+      .catch((e: any) => { if (live) { setBgMedia(null); setBgError(`${background.media?.name ?? 'Background'}: ${e?.message || e}`); } });
+    return () => { live = false; loaded?.dispose(); };
+  }, [background.type, background.media?.dataUrl]);
+  const onBackgroundMedia = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    const type = f.type.startsWith('video/') ? 'video' : 'image';
+    try { const dataUrl = await fileToDataUrl(f); setBackground((b) => ({ ...b, type, media: { fit: 'cover', blur: 0, dim: 0, ...b.media, dataUrl, name: f.name } })); }
+    catch (err: any) { setBgError(`${f.name}: ${err?.message || err}`); }
+  };
+
+  // Theme: palette/font overrides on the skin, plus named presets kept in this browser
+  const [theme, setTheme] = useState<ThemeSettings | undefined>(undefined);
+  const patchTheme = (f: (t: ThemeSettings) => ThemeSettings) => setTheme((t) => f(t ?? { ...DEFAULT_THEME, colors: {} }));
+  const setThemeColor = (k: ThemeColorKey, v: string | undefined) => patchTheme((t) => ({ ...t, colors: { ...t.colors, [k]: v } }));
+  const [themePresets, setThemePresets] = useState<ThemeSettings[]>(loadThemePresets);
+  const [themeError, setThemeError] = useState<string>("");
+  const storeThemePresets = (list: ThemeSettings[]) => {
+    try { localStorage.setItem(THEME_PRESETS_KEY, JSON.stringify(list)); setThemePresets(list); setThemeError(""); }
+    catch (e: any) { setThemeError(`Could not save presets: ${e?.message || e}`); }
+  };
+  const saveThemePreset = () => { if (theme) storeThemePresets([...themePresets.filter((t) => t.name !== theme.name), theme]); };
+  const onImportTheme = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    try { setTheme(parseThemeFile(await f.text())); setThemeError(""); } catch (err: any) { setThemeError(`${f.name}: ${err?.message || err}`); }
+  };
+  const onThemeFont = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    const family = f.name.replace(/\.(woff2?|ttf|otf)$/i, '').replace(/[^\w\- ]+/g, ' ').trim() || 'Custom font';
+    // browsers often report no MIME type for .ttf/.otf: label the data by its extension
+    const ext = (f.name.match(/\.(woff2?|ttf|otf)$/i)?.[1] || 'ttf').toLowerCase();
+    try { const dataUrl = (await fileToDataUrl(f)).replace(/^data:[^,]*?;base64,/, `data:font/${ext};base64,`); patchTheme((t) => ({ ...t, font: { family, dataUrl, fileName: f.name } })); }
+    catch (err: any) { setThemeError(`${f.name}: ${err?.message || err}`); }
+  };
+  // the preview re-measures once the font is in (the export stage awaits it itself)
+  const [, setFontsLoaded] = useState(0);
+  useEffect(() => {
+    let live = true, dispose: (() => void) | null = null;
+    loadThemeFont(theme?.font).then((d) => { if (live) { dispose = d; setFontsLoaded((n) => n + 1); } else d(); });
+    return () => { live = false; dispose?.(); };
+  }, [theme?.font?.family, theme?.font?.dataUrl]);
+
+  // Scenes: the chat being edited lives in the state above, the others wait in sceneList ([] = a single-chat story)
+  const [sceneList, setSceneList] = useState<Scene[]>([]);
+  const [activeScene, setActiveScene] = useState(0);
+  const [layout, setLayout] = useState<ProjectDoc['layout']>({ mode: 'SINGLE' });
+  const liveScene = useMemo<Scene>(() => ({ id: sceneList[activeScene]?.id ?? 'main', transition: sceneList[activeScene]?.transition ?? 'cut', meta: { contactName, timeLine, avatarUrl }, chat, settings, background, theme, messages }),
+    [sceneList, activeScene, contactName, timeLine, avatarUrl, chat, settings, background, theme, messages]);
+  const allScenes = useMemo(() => (sceneList.length ? sceneList.map((s, k) => (k === activeScene ? liveScene : s)) : [liveScene]), [sceneList, activeScene, liveScene]);
+  const loadScene = (s: Scene) => {
+    setContactName(s.meta.contactName); setTimeLine(s.meta.timeLine); setAvatarUrl(s.meta.avatarUrl); setChat(s.chat);
+    setSettings({ ...DEFAULT_SETTINGS, ...s.settings }); setBackground(s.background); setTheme(s.theme); setMessages(s.messages);
+  };
+  const switchScene = (k: number) => {
+    if (k === activeScene || !allScenes[k]) return;
+    setSceneList(allScenes); setActiveScene(k); loadScene(allScenes[k]); setSelectedMsg(null);
+  };
+  const addScene = () => {
+    const s: Scene = { ...liveScene, id: rid(), transition: 'swipe', meta: { contactName: 'New chat', timeLine }, chat: { ...DEFAULT_CHAT }, messages: [{ id: rid(), speaker: "RECEIVER", text: "Hey, are you there?" }] };
+    setSceneList([...allScenes, s]); setActiveScene(allScenes.length); loadScene(s); setSelectedMsg(null);
+  };
+  const deleteScene = (k: number) => {
+    const list = allScenes.filter((_, i) => i !== k);
+    const next = k < activeScene ? activeScene - 1 : Math.min(activeScene, list.length - 1);
+    setSceneList(list.length > 1 ? list : []); setActiveScene(list.length > 1 ? next : 0); loadScene(list[next]); setSelectedMsg(null);
+  };
+  const setSceneTransition = (k: number, transition: SceneTransition) => setSceneList((l) => l.map((s, i) => (i === k ? { ...s, transition } : s)));
+  // decoded backgrounds and fonts of the scenes not being edited (the active one uses bgMedia and the theme font above)
+  const otherScenes = useMemo(() => sceneList.filter((_, k) => k !== activeScene), [sceneList, activeScene]);
+  const otherMedia = useSceneMedia(otherScenes);
+  const sceneMedia = useMemo<SceneMedia>(() => ({ ...otherMedia, [liveScene.id]: bgMedia }), [otherMedia, liveScene.id, bgMedia]);
+  useEffect(() => {
+    let live = true, disposers: Array<() => void> = [];
+    Promise.all(otherScenes.map((s) => loadThemeFont(s.theme?.font))).then((d) => { if (live) { disposers = d; setFontsLoaded((n) => n + 1); } else d.forEach((f) => f()); });
+    return () => { live = false; disposers.forEach((f) => f()); };
+  }, [otherScenes]);
+
+  // Intro: lock/home screen with notifications before the chat (story-wide, like audio: not in the undo history)
+  const [intro, setIntro] = useState<IntroSettings | undefined>(undefined);
+  // Thumbnail: title over one frame, composed over the live preview while "Show on preview" is on
+  const [thumbnail, setThumbnail] = useState<ThumbnailSettings | undefined>(undefined);
+  const [showThumb, setShowThumb] = useState(false);
+  const thumb = thumbnail ?? DEFAULT_THUMBNAIL;
+  const setThumb = (patch: Partial<ThumbnailSettings>) => setThumbnail((t) => ({ ...DEFAULT_THUMBNAIL, ...t, ...patch }));
+  const patchIntro = (f: (x: IntroSettings) => IntroSettings) => setIntro((x) => (x ? f(x) : x));
+  const toggleIntro = (on: boolean) => setIntro(on ? { screen: 'lock', durationS: 3, wallpaper: DEFAULT_WALLPAPER, notifications: [{ id: rid(), text: messages.find((m) => m.speaker === 'RECEIVER')?.text || 'Are you awake?', at_s: 0.5 }] } : undefined);
+  const setNotification = (id: string, patch: Partial<IntroNotification>) => patchIntro((x) => ({ ...x, notifications: x.notifications.map((n) => (n.id === id ? { ...n, ...patch } : n)) }));
+  const addNotification = () => patchIntro((x) => {
+    const last = x.notifications[x.notifications.length - 1];
+    return { ...x, notifications: x.notifications.concat([{ id: rid(), text: 'New message', at_s: Math.max(0, Math.round(Math.min(x.durationS - 1.2, (last?.at_s ?? 0) + 0.8) * 10) / 10) }]) };
+  });
+  // shortening the intro pulls later notifications in so the project stays valid (at_s < durationS)
+  const resizeIntro = (x: IntroSettings, v: number): IntroSettings => {
+    const durationS = Math.min(INTRO_MAX_S, Math.max(1, v)), lastAt = Math.round((durationS - 0.1) * 10) / 10;
+    return { ...x, durationS, notifications: x.notifications.map((n) => (n.at_s > lastAt ? { ...n, at_s: lastAt } : n)) };
+  };
+  const delNotification = (id: string) => patchIntro((x) => ({ ...x, notifications: x.notifications.filter((n) => n.id !== id) }));
+
+  // Export options (recorded in the manifest)
+  const [canvasSize, setCanvasSize] = useState<CanvasSize>({ ...CANVAS });
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<ExportFormat>('mp4');
+  const [customCanvas, setCustomCanvas] = useState(false);
+  const [pacing, setPacing] = useState<PacingSettings>({ ...DEFAULT_PACING });
+  const [previewPart, setPreviewPart] = useState(0);
+  const setPacingField = (patch: Partial<PacingSettings>) => setPacing((p) => ({ ...p, ...patch }));
+  const canvasPreset = customCanvas ? 'custom' : (CANVAS_PRESETS.find((p) => p.w === canvasSize.w && p.h === canvasSize.h)?.key ?? 'custom');
+  const evenPx = (n: number, fallback: number) => (Number.isFinite(n) && n > 0 ? Math.max(240, Math.min(4096, Math.round(n / 2) * 2)) : fallback);
+
+  // Every scene's script and speakers (what narration and timing read; looks don't re-time anything)
+  const sceneScripts = useMemo<Array<Pick<Scene, 'transition' | 'messages' | 'chat'>>>(() => (sceneList.length ? sceneList.map((s, k) => (k === activeScene ? { ...s, messages, chat } : s)) : [{ transition: 'cut', messages, chat }]),
+    [sceneList, activeScene, messages, chat]);
 
-  // (TTS removed)
+  // Narration: clips are re-synthesised (debounced, cached per line) whenever the script, speakers or voices change
+  const [narrationClips, setNarrationClips] = useState<NarrationClip[]>([]);
+  const [narrating, setNarrating] = useState(false);
+  useEffect(() => {
+    if (!audio.narration.enabled) { setNarrationClips([]); setNarrating(false); return; }
+    let live = true;
+    const id = setTimeout(() => {
+      setNarrating(true);
+      Promise.all(sceneScripts.map((sc) => synthesizeNarration(sc.messages, sc.chat, audio.narration))).then((c) => { if (live) setNarrationClips(c.flat()); })
+        .catch((e: any) => { if (live) { setNarrationClips([]); setExportNote(`Narration failed: ${e?.message || e}`); } })
+        .finally(() => { if (live) setNarrating(false); });
+    }, 400);
+    return () => { live = false; clearTimeout(id); };
+  }, [sceneScripts, audio.narration]);
 
   // DnD helpers
   const [dragIndex, setDragIndex] = useState<number | null>(null);
@@ -363,7 +3118,7 @@ function FakeTextBuilder() {
   };
 
   // Actions
-  const addMsg = () => setMessages((m) => m.concat([{ id: rid(), speaker: "SENDER", text: "New message" }]));
+  const addMsg = () => { const id = rid(); setMessages((m) => m.concat([{ id, speaker: "SENDER", text: "New message" }])); selectMessage(id); };
   const delMsg = (id: string) => setMessages((m) => m.filter((x) => x.id !== id));
   const upMsg = (i: number) => setMessages((m) => (i <= 0 ? m.slice() : swap(m, i, i - 1)));
   const dnMsg = (i: number) => setMessages((m) => (i >= m.length - 1 ? m.slice() : swap(m, i, i + 1)));
@@ -372,10 +3127,63 @@ function FakeTextBuilder() {
   const swapAll = () => setMessages((m) => m.map((x) => ({ ...x, speaker: x.speaker === "SENDER" ? "RECEIVER" : "SENDER" })));
   const resetDelays = () => setMessages((m) => m.map((x) => ({ ...x, delay_s: undefined })));
   const clearTapbacks = () => setMessages((m) => m.map((x) => ({ ...x, tapback: null })));
+  const addTyping = () => setMessages((m) => m.map((x) => (x.speaker === "RECEIVER" && x.typing_s == null ? { ...x, typing_s: 1.5 } : x)));
+
+  // Undo/redo over the script, settings, background, theme, identity and scenes (export options, audio and intro are not tracked)
+  const history = useEditHistory({ messages, settings, background, theme, contactName, timeLine, avatarUrl, chat, scenes: sceneList, activeScene, layout }, (s) => {
+    if (s.activeScene !== activeScene || s.scenes.length !== sceneList.length) setSelectedMsg(null);
+    setSceneList(s.scenes); setActiveScene(s.activeScene); setLayout(s.layout);
+    setMessages(s.messages); setSettings(s.settings); setBackground(s.background); setTheme(s.theme); setContactName(s.contactName); setTimeLine(s.timeLine); setAvatarUrl(s.avatarUrl); setChat(s.chat);
+  });
+
+  // Plain-text script mode: edits re-parse live and apply whenever the text is error-free
+  const [scriptMode, setScriptMode] = useState<"FORM" | "TEXT">("FORM");
+  const [scriptDraft, setScriptDraft] = useState("");
+  const [scriptErrors, setScriptErrors] = useState<ScriptError[]>([]);
+  // the state the draft last saw: any other change (undo, the form, a loaded project) rewrites the draft from the messages
+  const draftSource = useRef<{ messages: Message[]; timeLine: string; chat: ChatInfo } | null>(null);
+  const onScriptText = (text: string) => {
+    setScriptDraft(text);
+    const r = parseScript(text, messages, { chat });
+    setScriptErrors(r.errors);
+    const ok = !r.errors.length;
+    if (ok) { setMessages(r.messages); if (r.timeLine !== undefined) setTimeLine(r.timeLine); }
+    draftSource.current = { messages: ok ? r.messages : messages, timeLine: ok && r.timeLine !== undefined ? r.timeLine : timeLine, chat };
+  };
+  useEffect(() => {
+    const src = draftSource.current;
+    if (scriptMode !== "TEXT" || (src && src.messages === messages && src.timeLine === timeLine && src.chat === chat)) return;
+    draftSource.current = { messages, timeLine, chat };
+    setScriptDraft(serializeScript(messages, timeLine, { chat })); setScriptErrors([]);
+  }, [scriptMode, messages, timeLine, chat]);
+  const openScriptText = () => { draftSource.current = null; setScriptMode("TEXT"); };
+  const onImportScript = async (e: any) => { const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return; setScriptMode("TEXT"); onScriptText(await f.text()); };
+  const exportScript = () => download('script.txt', new Blob([serializeScript(messages, timeLine, { chat })], { type: 'text/plain' }));
 
   // Avatar safe handler
   const onAvatar = async (e: any) => { const f: File | undefined = e?.target?.files?.[0]; if (!f) return; try { const dataUrl = await fileToDataUrl(f); setAvatarUrl(dataUrl); } catch { setAvatarUrl(undefined); } };
 
+  // Attachments for photo / sticker / link-preview messages
+  const onMessageImage = async (id: string, field: 'media_url' | 'link_image', e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    try {
+      const url = await fileToDataUrl(f);
+      if (field === 'media_url') { const { w, h } = await imageSize(url).catch(() => ({ w: 0, h: 0 })); setField(id, { media_url: url, media_w: w || undefined, media_h: h || undefined }); }
+      else setField(id, { link_image: url });
+    } catch { setField(id, { [field]: undefined }); }
+  };
+
+  // Group participants
+  const setGroup = (patch: Partial<ChatInfo>) => setChat((c) => ({ ...c, ...patch }));
+  const toggleGroup = (on: boolean) => setChat((c) => ({ ...c, group: on, participants: on && !c.participants.length ? [{ id: rid(), name: contactName || 'Anna', avatarUrl }, { id: rid(), name: 'Ben' }] : c.participants }));
+  const addParticipant = () => setChat((c) => ({ ...c, participants: c.participants.concat([{ id: rid(), name: `Person ${c.participants.length + 1}` }]) }));
+  const setParticipant = (id: string, patch: Partial<Participant>) => setChat((c) => ({ ...c, participants: c.participants.map((p) => (p.id === id ? { ...p, ...patch } : p)) }));
+  const delParticipant = (id: string) => {
+    setChat((c) => ({ ...c, participants: c.participants.filter((p) => p.id !== id) }));
+    setMessages((m) => m.map((x) => (x.participant_id === id ? { ...x, participant_id: undefined } : x)));
+  };
+  const onParticipantAvatar = async (id: string, e: any) => { const f: File | undefined = e?.target?.files?.[0]; if (!f) return; try { setParticipant(id, { avatarUrl: await fileToDataUrl(f) }); } catch { setParticipant(id, { avatarUrl: undefined }); } };
+
   // Responsive preview geometry: target ~1/3 of viewport width, clamped, centered
   const [viewportW, setViewportW] = useState<number>(typeof window !== 'undefined' ? window.innerWidth : 1440);
   const [viewportH, setViewportH] = useState<number>(typeof window !== 'undefined' ? window.innerHeight : 900);
@@ -389,9 +3197,9 @@ function FakeTextBuilder() {
   const baseThirdW = Math.min(Math.max(viewportW * 0.33, 380), 580);
   const PRE_W = Math.round(baseThirdW * 0.70);
   const PRE_H = Math.round(PRE_W * (840 / 470));
-  const scale = Math.min(PRE_W / CANVAS.w, PRE_H / CANVAS.h);
-  const scaledW = Math.round(CANVAS.w * scale);
-  const scaledH = Math.round(CANVAS.h * scale);
+  const scale = Math.min(PRE_W / canvasSize.w, PRE_H / canvasSize.h);
+  const scaledW = Math.round(canvasSize.w * scale);
+  const scaledH = Math.round(canvasSize.h * scale);
   const offsetX = Math.max(0, Math.round((PRE_W - scaledW) / 2));
   const offsetY = Math.max(0, Math.round((PRE_H - scaledH) / 2));
 
@@ -399,135 +3207,292 @@ function FakeTextBuilder() {
   const [exporting, setExporting] = useState(false);
   const [exportNote, setExportNote] = useState<string>("");
 
-  // Manifest for export parity
-  const manifest = useMemo(() => ({
-    kind: 'FAKE_TEXT',
-    canvas: { width: CANVAS.w, height: CANVAS.h, fps: 30, dpr: 2 },
-    background: { type: 'solid', value: bgColor },
-    layout: { mode: 'SINGLE' },
-    messages,
-    meta: { contactName, timeLine },
-    settings,
-  }), [bgColor, messages, contactName, timeLine, settings]);
+  // Manifest for export parity (also the saved project document)
+  // the first scene is the top level, later ones go in `scenes`
+  const manifest = useMemo<ProjectDoc>(() => {
+    const [first, ...rest] = allScenes;
+    return {
+      kind: 'FAKE_TEXT',
+      version: PROJECT_VERSION,
+      canvas: { width: canvasSize.w, height: canvasSize.h, fps, dpr: 2 },
+      output: { format },
+      pacing,
+      background: first.background,
+      theme: first.theme,
+      layout,
+      scenes: rest.length ? rest : undefined,
+      intro,
+      thumbnail,
+      messages: first.messages,
+      meta: { ...first.meta, title: projectName },
+      chat: first.chat,
+      audio,
+      settings: first.settings,
+    };
+  }, [canvasSize, fps, format, pacing, allScenes, layout, intro, thumbnail, projectName, audio]);
+
+  // Hydrate every piece of builder state from a parsed project
+  const applyProject = (doc: ProjectDoc) => {
+    const scenes = docScenes(doc);
+    history.reset({
+      messages: doc.messages, settings: { ...DEFAULT_SETTINGS, ...doc.settings }, background: doc.background, theme: doc.theme,
+      contactName: doc.meta.contactName, timeLine: doc.meta.timeLine, avatarUrl: doc.meta.avatarUrl, chat: doc.chat,
+      scenes: scenes.length > 1 ? scenes : [], activeScene: 0, layout: doc.layout,
+    });
+    setProjectName(doc.meta.title || 'Untitled story');
+    setAudio(doc.audio);
+    setCanvasSize({ w: doc.canvas.width, h: doc.canvas.height });
+    setFps(doc.canvas.fps);
+    setFormat(doc.output.format);
+    setPacing(doc.pacing); setPreviewPart(0); setIntro(doc.intro); setThumbnail(doc.thumbnail);
+  };
+
+  // Projects: restore latest autosave on load, then autosave (debounced) on every change
+  const [projectId, setProjectId] = useState<string>(() => rid());
+  const [hydrated, setHydrated] = useState(false);
+  const [recent, setRecent] = useState<ProjectRecord[]>([]);
+  const [projectError, setProjectError] = useState<string>("");
+  const [fileOver, setFileOver] = useState(false);
+  const refreshRecent = () => listProjectRecords().then(setRecent).catch((e: any) => setProjectError(`Recent projects unavailable: ${e?.message || e}`));
+  useEffect(() => {
+    listProjectRecords().then((recs) => {
+      setRecent(recs);
+      const last = recs[0];
+      if (last) { try { applyProject(parseProject(last.doc)); setProjectId(last.id); } catch (e: any) { setProjectError(`Could not restore "${last.name}": ${e?.message || e}`); } }
+    }).catch((e: any) => setProjectError(`Autosave unavailable: ${e?.message || e}`)).finally(() => setHydrated(true));
+  }, []);
+  useEffect(() => {
+    if (!hydrated) return;
+    const id = setTimeout(() => { saveProjectRecord({ id: projectId, name: projectName, updatedAt: Date.now(), doc: manifest }).then(refreshRecent).catch((e: any) => setProjectError(`Autosave failed: ${e?.message || e}`)); }, 800);
+    return () => clearTimeout(id);
+  }, [manifest, projectId, hydrated]);
+
+  const openProjectRecord = (rec: ProjectRecord) => {
+    try { applyProject(parseProject(rec.doc)); setProjectId(rec.id); setProjectError(""); return true; }
+    catch (e: any) { setProjectError(`Could not open "${rec.name}": ${e?.message || e}`); return false; }
+  };
+  const importProjectFile = async (file: File) => {
+    try {
+      const doc = parseProject(await file.text());
+      applyProject({ ...doc, meta: { ...doc.meta, title: doc.meta.title || file.name.replace(/\.json$/i, '') } });
+      setProjectId(rid()); setProjectError(""); setTab('SCRIPT');
+    } catch (e: any) { setProjectError(`${file.name}: ${e?.message || e}`); }
+  };
+  const onOpenProject = (e: any) => { const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (f) importProjectFile(f); };
+  const newProject = () => {
+    history.reset({
+      messages: [{ id: rid(), speaker: "SENDER", text: "Hey, you free?" }], settings: { ...DEFAULT_SETTINGS }, background: { ...DEFAULT_BACKGROUND }, theme: undefined,
+      contactName: 'Anna', timeLine: 'Today 7:42 PM', avatarUrl: undefined, chat: { ...DEFAULT_CHAT }, scenes: [], activeScene: 0, layout: { mode: 'SINGLE' },
+    });
+    setProjectId(rid()); setProjectName('Untitled story'); setAudio({ ...DEFAULT_AUDIO }); setProjectError("");
+    setCanvasSize({ ...CANVAS }); setFps(30); setFormat('mp4'); setPacing({ ...DEFAULT_PACING }); setPreviewPart(0);
+    setIntro(undefined); setThumbnail(undefined); setShowThumb(false);
+  };
+  // deleting the open project moves on to the next recent one (or a new story) so autosave can't write it back
+  const removeProject = (id: string) => {
+    deleteProjectRecord(id).then(refreshRecent).catch((e: any) => setProjectError(`Could not delete the project: ${e?.message || e}`));
+    if (id !== projectId) return;
+    const next = recent.find((r) => r.id !== id);
+    if (!next || !openProjectRecord(next)) newProject();
+  };
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer?.types || []).includes('Files');
 
   const download = (name: string, data: Blob | string) => {
     const blob = typeof data === 'string' ? new Blob([data], { type: 'application/json' }) : data;
     const a = document.createElement('a'); a.href = URL.createObjectURL(blob); a.download = name; document.body.appendChild(a); a.click(); setTimeout(()=>{ URL.revokeObjectURL(a.href); a.remove(); }, 500);
   };
   const downloadManifest = () => download('render-manifest.json', JSON.stringify(manifest, null, 2));
+  const saveProjectFile = () => download(`${(projectName.trim() || 'project').replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-')}.json`, JSON.stringify(manifest, null, 2));
+  const exportThemeFile = () => { if (theme) download(`${(theme.name.trim() || 'theme').replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-')}.theme.json`, JSON.stringify({ kind: 'FAKE_TEXT_THEME', ...theme }, null, 2)); };
 
   const goNext = () => setTab((t)=> t === 'SCRIPT' ? 'ADVANCED' : t === 'ADVANCED' ? 'BACKGROUND' : t === 'BACKGROUND' ? 'EXPORT' : 'EXPORT');
   const goPrev = () => setTab((t)=> t === 'EXPORT' ? 'BACKGROUND' : t === 'BACKGROUND' ? 'ADVANCED' : 'SCRIPT');
 
-  // Exact export: render frames from the same DOM using html2canvas, encode with ffmpeg.wasm
-  const naturalDurationMs = useMemo(() => {
-    // Sum of per-message delays plus a tail pad to match preview pacing
-    const total = messages.reduce((acc, m) => acc + Math.round(((m.delay_s ?? 3) * 1000)), 0);
-    return Math.max(3000, total + 1500);
-  }, [messages]);
+  // Pacing: narrated lines hold for their clip and the scenes fold into one script, then the pacing mode and part split decide
+  // what the preview plays (one part at a time)
+  const timedScripts = useMemo(() => sceneScripts.map((sc) => ({ transition: sc.transition, messages: applyNarrationTiming(sc.messages, narrationClips) })), [sceneScripts, narrationClips]);
+  const timedMessages = useMemo(() => foldScenes(timedScripts, pacing), [timedScripts, pacing]);
+  const cut = useMemo(() => storyCut(timedMessages, pacing, previewPart, intro), [timedMessages, pacing, previewPart, intro]);
+  const plans = useMemo(() => scenePlan(allScenes.map((s, k) => ({ ...s, messages: timedScripts[k].messages })), cut), [allScenes, timedScripts, cut]);
+
+  // Timeline panel: shares the preview's clock; clicking a block opens that message in the Script tab
+  const previewClock = useMemo(createPreviewClock, []);
+  const [selectedMsg, setSelectedMsg] = useState<string | null>(null);
+  // fixed on the timeline: narrated lines, other scenes, and the gap into the next scene (it holds the transition)
+  const lockedIds = useMemo(() => {
+    const ids = new Set(narrationClips.map((c) => c.id));
+    if (!sceneList.length) return ids;
+    const own = new Set(messages.map((m) => m.id));
+    cut.messages.forEach((m) => { if (!own.has(m.id)) ids.add(m.id); });
+    if (messages.length) ids.add(messages[messages.length - 1].id);
+    return ids;
+  }, [narrationClips, sceneList.length, messages, cut]);
+  const selectMessage = (id: string) => {
+    const k = allScenes.findIndex((s) => s.messages.some((m) => m.id === id));
+    if (k >= 0) switchScene(k);
+    setSelectedMsg(id); setTab('SCRIPT'); setScriptMode('FORM');
+  };
+  useEffect(() => { if (selectedMsg) document.getElementById(`msg-row-${selectedMsg}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' }); }, [selectedMsg, tab, scriptMode]);
+
+  // Shortcuts: Ctrl/⌘+Z undo, Ctrl/⌘+Shift+Z (or Ctrl+Y) redo, Space play/pause, Ctrl/⌘+Enter add a message,
+  // Alt+↑/↓ move the focused (or selected) message. The plain-text script keeps the browser's own undo.
+  const shortcuts = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcuts.current = (e) => {
+    const el = e.target as HTMLElement | null;
+    if (el?.closest?.('[data-native-undo]')) return;
+    const mod = e.ctrlKey || e.metaKey, key = e.key.toLowerCase();
+    if (mod && key === 'z') { e.preventDefault(); if (e.shiftKey) history.redo(); else history.undo(); }
+    else if (mod && key === 'y') { e.preventDefault(); history.redo(); }
+    else if (mod && e.key === 'Enter') { e.preventDefault(); addMsg(); }
+    else if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      const id = el?.closest?.('[id^="msg-row-"]')?.id.slice('msg-row-'.length) ?? selectedMsg;
+      const i = messages.findIndex((m) => m.id === id);
+      if (i < 0) return;
+      e.preventDefault(); setSelectedMsg(messages[i].id);
+      if (e.key === 'ArrowUp') upMsg(i); else dnMsg(i);
+    }
+    else if (e.key === ' ' && !mod && !(el && (/^(INPUT|TEXTAREA|SELECT|BUTTON)$/.test(el.tagName) || el.isContentEditable))) { e.preventDefault(); previewClock.toggle?.(); }
+  };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcuts.current(e);
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
 
-  // Force exports under 40 seconds by applying time compression when needed
-  const MAX_EXPORT_MS = 40000;
-  const timeScale = useMemo(() => {
-    return naturalDurationMs > MAX_EXPORT_MS ? (naturalDurationMs / MAX_EXPORT_MS) : 1;
-  }, [naturalDurationMs]);
+  // Story audio: re-mixed (debounced) whenever timing or audio settings change; the preview plays the same buffer
+  const [audioMix, setAudioMix] = useState<AudioBuffer | null>(null);
+  const [previewMuted, setPreviewMuted] = useState(false);
+  useEffect(() => {
+    let live = true;
+    const id = setTimeout(() => { renderStoryAudio(cut, audio, narrationClips).then((b) => { if (live) setAudioMix(b); }).catch((e: any) => { if (live) { setAudioMix(null); setExportNote(`Audio mix failed: ${e?.message || e}`); } }); }, 300);
+    return () => { live = false; clearTimeout(id); };
+  }, [cut, audio, narrationClips]);
+  const setMusic = (patch: Partial<MusicTrack>) => setAudio((a) => (a.music ? { ...a, music: { ...a.music, ...patch } } : a));
+  const onMusic = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    try { const dataUrl = await fileToDataUrl(f); setAudio((a) => ({ ...a, music: { dataUrl, name: f.name, volume: 0.35, fadeOutS: 2, duck: true } })); }
+    catch (err: any) { setExportNote(`${f.name}: ${err?.message || err}`); }
+  };
 
-  // (TTS removed)
+  const setNarration = (patch: Partial<NarrationSettings>) => setAudio((a) => ({ ...a, narration: { ...a.narration, ...patch } }));
+  const narrator = voiceProvider(audio.narration.provider);
+  // One voice picker per speaker: me, then the contact or each group participant
+  const narrationSpeakers: Array<{ key: string; label: string; slot: number }> = [{ key: 'SENDER', label: 'Me', slot: 0 }].concat(
+    chat.group && chat.participants.length ? chat.participants.map((p, i) => ({ key: p.id, label: p.name || `Person ${i + 1}`, slot: 1 + i })) : [{ key: 'RECEIVER', label: contactName || 'Contact', slot: 1 }]);
 
-  const exportMp4Exact = async () => {
+  // Exact export: frames from the same DOM (html2canvas, duplicates skipped), encoded by WebCodecs / ffmpeg.wasm or zipped as PNGs
+  const exportAbort = useRef<AbortController | null>(null);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  // throttle re-renders to a few per second; phase starts and ends always show
+  const progressSink = (label = () => '') => {
+    let shownAt = 0;
+    return (p: ExportProgress) => { const now = performance.now(); if (p.done > 0 && p.done < p.total && now - shownAt < 200) return; shownAt = now; const l = label(); setExportProgress(l ? { ...p, phase: `${l} · ${p.phase}` } : p); };
+  };
+  const exportExact = async () => {
     if (exporting) return;
+    const abort = new AbortController(); exportAbort.current = abort;
     try {
       setTab('EXPORT');
       setExporting(true);
-      setExportNote('Preparing renderer...');
-
-      // Offscreen mount at full canvas size for perfect parity (1080×1920)
-      const off = document.createElement('div');
-      Object.assign(off.style, { position: 'fixed', left: '-10000px', top: '0px', width: `${CANVAS.w}px`, height: `${CANVAS.h}px`, background: bgColor, overflow: 'hidden' });
-      document.body.appendChild(off);
-      const offRoot = createRoot(off);
-
-      // Controlled time container
-      const ExportHost: React.FC = () => {
-        const [timeMs, setTimeMs] = useState(0);
-        (window as any).__setExportTime = setTimeMs;
-        return (
-          <FakeTextPreview
-            exportMode
-            contactName={contactName}
-            avatarUrl={avatarUrl}
-            timeLine={timeLine}
-            messages={messages}
-            settings={settings}
-            bgColor={bgColor}
-            durationMs={Math.min(naturalDurationMs, MAX_EXPORT_MS)}
-            timeScale={timeScale}
-            timeOverrideMs={timeMs}
-          />
-        );
-      };
-      offRoot.render(<ExportHost />);
-
-      // Wait a frame for layout
-      await new Promise((r) => requestAnimationFrame(() => r(null)));
-
-      // (TTS removed) Use configured delays for export timeline
-      await new Promise((r) => requestAnimationFrame(() => r(null)));
-
-      // 3) Capture frames strictly at 30fps along the time-compressed timeline
-      setExportNote('Capturing frames…');
-      const { default: html2canvas } = await import('html2canvas');
-      const fps = 30;
-      const dt = Math.round(1000 / fps);
-      const frames: Array<Uint8Array> = [];
-      const totalMs = Math.min(naturalDurationMs, MAX_EXPORT_MS);
-      const totalFrames = Math.ceil(totalMs / dt);
-
-      // Capture the offscreen export DOM to ensure timeline control and no scrubber
-      const targetEl = off;
-
-      for (let i = 0; i <= totalFrames; i++) {
-        const exportTimelineMs = Math.min(totalMs, Math.round(i * dt));
-        (window as any).__setExportTime(exportTimelineMs);
-        await new Promise((r) => requestAnimationFrame(() => r(null)));
-        const canvas = await html2canvas(targetEl, { backgroundColor: null, width: CANVAS.w, height: CANVAS.h, scale: 1, useCORS: true, logging: false });
-        const blob: Blob | null = await new Promise<Blob | null>((res) => canvas.toBlob((b: Blob | null) => res(b), 'image/png'));
-        if (!blob) throw new Error('Canvas toBlob failed');
-        const ab = await blob.arrayBuffer();
-        frames.push(new Uint8Array(ab));
-      }
-
-      const { FFmpeg } = await import('@ffmpeg/ffmpeg');
-      const ffmpeg = new FFmpeg();
-      await ffmpeg.load();
-
-      // Write frames (PNG avoids edge darkening)
-      for (let i = 0; i < frames.length; i++) {
-        const name = `frame_${String(i).padStart(5, '0')}.png`;
-        await ffmpeg.writeFile(name, frames[i]);
-      }
-
-      setExportNote(`Encoding MP4 (${frames.length} frames @ ${fps}fps)…`);
-      await ffmpeg.exec(['-framerate', String(fps), '-i', 'frame_%05d.png', '-pix_fmt', 'yuv420p', '-vf', 'scale=1080:1920:flags=lanczos,format=yuv420p', '-movflags', '+faststart', 'out.mp4']);
-      const data: any = await ffmpeg.readFile('out.mp4');
-      const mp4Blob = new Blob([data.buffer ?? data], { type: 'video/mp4' });
-      download('fake-text.mp4', mp4Blob);
-
-      offRoot.unmount(); off.remove();
+      setExportProgress(null);
+      setExportNote('Preparing renderer…');
+      const files = await renderExport(manifest, { signal: abort.signal, onProgress: progressSink() });
+      const base = format === 'png' ? 'fake-text-frames' : 'fake-text';
+      // one download per export: browsers block or prompt on a burst of them, so the parts of a split story come zipped
+      if (files.length > 1) {
+        const zip = createZip();
+        for (const [k, f] of files.entries()) await zip.addBlob(`${base}-part${k + 1}.${EXPORT_FORMATS[format].ext}`, f);
+        download(`${base}-parts.zip`, zip.finish());
+      } else download(`${base}.${EXPORT_FORMATS[format].ext}`, files[0]);
+      setExportNote('');
+    } catch (e) {
+      if (abort.signal.aborted) setExportNote('Export cancelled.');
+      else { setExportNote('Export failed. See console.'); console.error(e); }
+    } finally {
+      exportAbort.current = null;
+      setExporting(false);
+      setExportProgress(null);
+    }
+  };
+  const cancelExport = () => exportAbort.current?.abort();
+  // Stills: one PNG from the same stage (the frame under the playhead, the whole chat, or the thumbnail)
+  const exportStill = async (kind: StillKind) => {
+    if (exporting) return;
+    const abort = new AbortController(); exportAbort.current = abort;
+    try {
+      setExporting(true);
+      setExportProgress(null);
+      setExportNote(kind === 'tall' ? 'Rendering the full chat…' : 'Rendering image…');
+      const png = await renderStill(manifest, kind, { part: cut.part, atMs: kind === 'frame' ? previewClock.ms : undefined, signal: abort.signal });
+      download(`fake-text-${kind === 'tall' ? 'full-chat' : kind}${kind !== 'tall' && cut.parts > 1 ? `-part${cut.part + 1}` : ''}.png`, png);
       setExportNote('');
+    } catch (e) {
+      setExportNote(abort.signal.aborted ? 'Export cancelled.' : `Image export failed: ${(e as Error)?.message || e}`);
+    } finally {
+      exportAbort.current = null;
       setExporting(false);
+    }
+  };
+
+  // Batch: the project (or a loaded manifest) as a template, one render per CSV/JSON row, zipped together
+  const [batchTemplate, setBatchTemplate] = useState<{ name: string; raw: unknown } | null>(null);
+  const [batchRowsName, setBatchRowsName] = useState("");
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [batchError, setBatchError] = useState("");
+  const batchFields = useMemo(() => templatePlaceholders(batchTemplate?.raw ?? manifest), [batchTemplate, manifest]);
+  const batchMissing = batch.length ? batchFields.filter((k) => !hasKey(batch[0].row, k)) : [];
+  const templateOut = isObj(batchTemplate?.raw) ? batchTemplate?.raw.output?.format : undefined;
+  const batchFormat: ExportFormat = typeof templateOut === 'string' && hasKey(EXPORT_FORMATS, templateOut) ? templateOut as ExportFormat : format;
+  const onBatchRows = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    try { setBatch(batchItems(parseBatchRows(await f.text(), f.name))); setBatchRowsName(f.name); setBatchError(""); }
+    catch (err: any) { setBatchError(`${f.name}: ${err?.message || err}`); }
+  };
+  const onBatchTemplate = async (e: any) => {
+    const f: File | undefined = e?.target?.files?.[0]; if (e?.target) e.target.value = ''; if (!f) return;
+    // placeholders may sit in fields the project checks (colours, names), so each row is validated once it is filled in
+    try { const raw = JSON.parse(await f.text()); if (!isObj(raw) || raw.kind !== 'FAKE_TEXT') throw new Error('Not a project manifest.'); setBatchTemplate({ name: f.name, raw }); setBatchError(""); }
+    catch (err: any) { setBatchError(`${f.name}: ${err?.message || err}`); }
+  };
+  const runBatch = async (items: BatchItem[]) => {
+    if (exporting) return;
+    const abort = new AbortController(); exportAbort.current = abort;
+    const list = items.slice(), total = list.filter((it) => it.status === 'queued').length;
+    let current = '', n = 0;
+    try {
+      setExporting(true);
+      setExportProgress(null);
+      setExportNote('Preparing renderer…');
+      await renderBatch(batchTemplate?.raw ?? manifest, list, {
+        signal: abort.signal, onProgress: progressSink(() => current),
+        onItem: (i, it) => { if (it.status === 'rendering' && it.attempts === 1) n++; if (it.status === 'rendering') current = `${it.name} (${n}/${total}${it.attempts > 1 ? `, try ${it.attempts}` : ''})`; list[i] = it; setBatch(list.slice()); },
+      });
+      const failed = list.filter((it) => it.status === 'failed').length;
+      setExportNote(`Batch finished: ${list.filter((it) => it.status === 'done').length} rendered${failed ? `, ${failed} failed` : ''}.`);
     } catch (e) {
-      setExportNote('Export failed. See console.');
-      console.error(e);
+      if (abort.signal.aborted) setExportNote('Batch cancelled.');
+      else setExportNote(`Batch failed: ${(e as Error)?.message || e}`);
+    } finally {
+      exportAbort.current = null;
       setExporting(false);
+      setExportProgress(null);
     }
   };
+  const retryBatchItem = (i: number) => { const list = batch.map((it, k) => (k === i ? { ...it, status: 'queued' as const, attempts: 0, error: undefined } : it)); setBatch(list); runBatch(list); };
+  const downloadBatchZip = async () => {
+    try { download(`${(projectName.trim() || 'batch').replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-')}-batch.zip`, await zipBatch(batch)); }
+    catch (e) { setBatchError(`Could not build the zip: ${(e as Error)?.message || e}`); }
+  };
 
   const gridCols = isNarrow ? '1fr' : `minmax(720px, 1fr) ${PRE_W}px`;
   return (
     <div style={{ height: "100vh", overflow: "hidden", display: "grid", gridTemplateColumns: gridCols, gap: 24, alignItems: "start", justifyItems: isNarrow?"stretch":"center", padding: 24, background: GRAY_BG }}>
       {/* Builder column (scrollable) */}
-      <div style={{ width: "100%", maxHeight: "calc(100vh - 48px)", overflow: "hidden", borderRadius: 16, border: `1px solid ${BORDER}`, boxShadow: "0 10px 40px rgba(0,0,0,.35)", background: SURFACE }}>
+      <div
+        onDragOver={(e)=>{ if (!isFileDrag(e)) return; e.preventDefault(); setFileOver(true); }}
+        onDragLeave={(e)=>{ if (e.currentTarget === e.target) setFileOver(false); }}
+        onDrop={(e)=>{ if (!isFileDrag(e)) return; e.preventDefault(); setFileOver(false); const f = e.dataTransfer.files?.[0]; if (f) importProjectFile(f); }}
+        style={{ width: "100%", maxHeight: "calc(100vh - 48px)", overflow: "hidden", borderRadius: 16, border: `1px solid ${fileOver ? BLUE : BORDER}`, boxShadow: "0 10px 40px rgba(0,0,0,.35)", background: SURFACE }}>
         {/* Title bar (no traffic-lights) */}
         <div style={{ height: 44, display: "flex", alignItems: "center", justifyContent: "space-between", padding: "0 14px", borderBottom: `1px solid ${BORDER}`, background: "linear-gradient(180deg, rgba(28,28,30,.85), rgba(28,28,30,.75))", backdropFilter: "saturate(180%) blur(10px)" }}>
           <div style={{ color: TEXT, fontFamily: FONT, fontSize: 13, opacity: .9 }}>Fake Text Story — Builder</div>
@@ -543,6 +3508,8 @@ function FakeTextBuilder() {
             { key: "EXPORT", label: "4. Export" },
           ]} />
           <div style={{ display: "flex", gap: 8 }}>
+            <button onClick={history.undo} style={toolbarBtn} disabled={!history.canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">↶</button>
+            <button onClick={history.redo} style={toolbarBtn} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">↷</button>
             <button onClick={goPrev} style={toolbarBtn} disabled={tab==='SCRIPT'}>Back</button>
             <button onClick={goNext} style={toolbarBtn} disabled={tab==='EXPORT'}>Next</button>
           </div>
@@ -552,18 +3519,95 @@ function FakeTextBuilder() {
         <div style={{ height: "calc(100% - 88px)", overflowY: "auto", padding: 16, fontFamily: FONT, color: TEXT }}>
           {tab === "SCRIPT" && (
             <>
+              <section style={card}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <h4 style={{ ...h4, marginBottom: 0, flex: 1 }}>Project</h4>
+                  <button onClick={newProject} style={btnMini}>New</button>
+                  <label style={{ ...btnMini, display: "inline-block" }}>Open…<input type="file" accept="application/json,.json" onChange={onOpenProject} style={{ display: "none" }} /></label>
+                  <button onClick={saveProjectFile} style={btnMini}>Save .json</button>
+                </div>
+                <label style={lbl}>Name<input style={inp} value={projectName} onChange={(e) => setProjectName(e.target.value)} /></label>
+                <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>Autosaved in this browser. Drop a project .json anywhere on this panel to open it.</div>
+                {projectError && (<div role="alert" style={{ marginTop: 8, padding: "8px 10px", borderRadius: 8, border: "1px solid #512626", background: "#2A1414", color: "#FFD1D1", fontSize: 12, whiteSpace: "pre-wrap" }}>{projectError}</div>)}
+                {recent.length > 0 && (
+                  <div style={{ marginTop: 8, maxHeight: 150, overflowY: "auto" }}>
+                    {recent.slice(0, 10).map((r) => (
+                      <div key={r.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", fontSize: 12 }}>
+                        <span style={{ flex: 1, color: r.id === projectId ? "#E6F0FF" : TEXT, fontWeight: r.id === projectId ? 600 : 400, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{r.name || 'Untitled story'}</span>
+                        <span style={{ color: SUBTEXT }}>{new Date(r.updatedAt).toLocaleString()}</span>
+                        <button onClick={() => openProjectRecord(r)} disabled={r.id === projectId} style={btnMini}>Open</button>
+                        <button onClick={() => removeProject(r.id)} style={btnMiniDanger} aria-label="Delete project">✕</button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section style={card}>
+                <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <h4 style={{ ...h4, marginBottom: 0, flex: 1 }}>Scenes</h4>
+                  <button onClick={addScene} style={btnMini}>+ Scene</button>
+                </div>
+                <div style={{ marginTop: 8 }}>
+                  {allScenes.map((s, k) => (
+                    <div key={s.id} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", fontSize: 12 }}>
+                      <button onClick={() => switchScene(k)} disabled={k === activeScene} style={{ ...btnMini, flex: 1, textAlign: "left", opacity: 1, fontWeight: k === activeScene ? 600 : 400, background: k === activeScene ? "rgba(10,132,255,.25)" : btnMini.background }}>
+                        {k + 1}. {s.chat.group ? s.chat.groupName || 'Group chat' : s.meta.contactName || 'Contact'} · {s.messages.length} msg
+                      </button>
+                      {k > 0 && (
+                        <select value={s.transition} onChange={(e) => setSceneTransition(k, e.target.value as SceneTransition)} style={{ ...sel, marginTop: 0, width: 190 }} aria-label="Transition into this scene">
+                          {TRANSITION_KEYS.map((t) => (<option key={t} value={t}>{SCENE_TRANSITIONS[t].label}</option>))}
+                        </select>
+                      )}
+                      {allScenes.length > 1 && (<button onClick={() => deleteScene(k)} style={btnMiniDanger} aria-label="Delete scene">✕</button>)}
+                    </div>
+                  ))}
+                </div>
+                <div style={{ marginTop: 8 }}>
+                  <Segmented value={layout.mode} onChange={(k) => setLayout((l) => ({ ...l, mode: k as LayoutMode }))} options={[{ key: 'SINGLE', label: 'One phone' }, { key: 'SPLIT', label: 'Split: both phones' }]} />
+                </div>
+                {layout.mode === 'SPLIT' && (<label style={lbl}>My name on the other phone<input style={inp} placeholder="Me" value={layout.splitName ?? ""} onChange={(e) => setLayout((l) => ({ ...l, splitName: e.target.value || undefined }))} /></label>)}
+                <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>Each scene is its own chat with its own contact, style and background; the rest of this tab edits the highlighted one. Scenes play back to back as one video.</div>
+              </section>
+
+              <section style={card}>
+                <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <input type="checkbox" checked={!!intro} onChange={(e) => toggleIntro(e.target.checked)} />
+                  <h4 style={{ ...h4, marginBottom: 0 }}>Intro: notifications before the chat</h4>
+                </label>
+                {intro && (
+                  <>
+                    <div style={{ marginTop: 8 }}>
+                      <Segmented value={intro.screen} onChange={(k) => patchIntro((x) => ({ ...x, screen: k as IntroScreen }))} options={[{ key: 'lock', label: 'Lock screen' }, { key: 'home', label: 'Home screen' }]} />
+                    </div>
+                    <SliderRow label="Intro length (s)" min={1} max={INTRO_MAX_S} value={intro.durationS} onChange={(v) => patchIntro((x) => resizeIntro(x, v))} />
+                    <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8 }}>
+                      <span style={{ fontSize: 12, opacity: 0.9 }}>Wallpaper</span>
+                      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <input type="color" value={intro.wallpaper.startsWith('#') ? intro.wallpaper : '#22345C'} onChange={(e) => patchIntro((x) => ({ ...x, wallpaper: e.target.value }))} />
+                        <button onClick={() => patchIntro((x) => ({ ...x, wallpaper: DEFAULT_WALLPAPER }))} disabled={intro.wallpaper === DEFAULT_WALLPAPER} style={btnMini}>Default gradient</button>
+                      </div>
+                    </div>
+                    {intro.notifications.map((n) => (
+                      <div key={n.id} style={{ display: "grid", gridTemplateColumns: "1fr 72px auto", gap: 8, marginTop: 8, alignItems: "center" }}>
+                        <input style={{ ...inp, marginTop: 0 }} placeholder="Message preview" value={n.text} onChange={(e) => setNotification(n.id, { text: e.target.value })} />
+                        <input type="number" min={0} max={intro.durationS - 0.1} step={0.1} style={{ ...inp, marginTop: 0, padding: "6px 8px" }} title="Arrives at (s into the intro)" value={n.at_s} onChange={(e) => setNotification(n.id, { at_s: Math.min(Math.round((intro.durationS - 0.1) * 10) / 10, Math.max(0, Number(e.target.value) || 0)) })} />
+                        <button onClick={() => delNotification(n.id)} style={btnMiniDanger} aria-label="Delete notification">✕</button>
+                      </div>
+                    ))}
+                    <button onClick={addNotification} style={{ ...btnMini, marginTop: 8 }}>+ Notification</button>
+                    <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>Notifications from {chatTitle(allScenes[0].chat, allScenes[0].meta.contactName) || 'the contact'} in {notificationApp(skinOf(allScenes[0].settings.uiStyle))} style, at seconds into the intro; the newest is tapped and opens the chat. The chat starts after the intro.</div>
+                  </>
+                )}
+              </section>
+
               <section style={card}>
                 <h4 style={h4}>Style</h4>
                 <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8 }}>
                   <span style={{ fontSize: 12, opacity: 0.9 }}>UI Style</span>
-                  <div>
-                    <label style={{ marginRight: 12 }}>
-                      <input type="radio" name="ui-style" checked={(settings.uiStyle||'IMESSAGE')==='IMESSAGE'} onChange={()=>setUI({ uiStyle: 'IMESSAGE' })} /> iMessage
-                    </label>
-                    <label>
-                      <input type="radio" name="ui-style" checked={(settings.uiStyle||'IMESSAGE')==='WHATSAPP'} onChange={()=>setUI({ uiStyle: 'WHATSAPP' })} /> WhatsApp
-                    </label>
-                  </div>
+                  <select value={settings.uiStyle || 'IMESSAGE'} onChange={(e)=>setUI({ uiStyle: e.target.value as SkinId })} style={{ ...sel, marginTop: 0 }}>
+                    {SKIN_KEYS.map((k) => (<option key={k} value={k}>{SKINS[k].label}</option>))}
+                  </select>
                 </div>
                 <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8, marginTop: 8 }}>
                   <span style={{ fontSize: 12, opacity: 0.9 }}>Theme</span>
@@ -584,38 +3628,112 @@ function FakeTextBuilder() {
                   <label style={lbl}>Contact Name<input style={inp} value={contactName} onChange={(e) => setContactName(e.target.value)} /></label>
                   <label style={lbl}>Time Separator<input style={inp} value={timeLine} onChange={(e) => setTimeLine(e.target.value)} placeholder="Today 7:42 PM" /></label>
                   <label style={lbl}>Avatar<input type="file" accept="image/*" onChange={onAvatar} /></label>
+                  <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8 }}><input type="checkbox" checked={chat.group} onChange={(e) => toggleGroup(e.target.checked)} /> Group chat</label>
                 </div>
+                {chat.group && (
+                  <div style={{ marginTop: 8 }}>
+                    <label style={lbl}>Group name<input style={inp} value={chat.groupName} onChange={(e) => setGroup({ groupName: e.target.value })} placeholder={chat.participants.map((p) => p.name).join(', ')} /></label>
+                    {chat.participants.map((p, i) => (
+                      <div key={p.id} style={{ display: "grid", gridTemplateColumns: "1fr 44px auto auto", gap: 8, alignItems: "center", marginTop: 8 }}>
+                        <input style={{ ...inp, marginTop: 0 }} value={p.name} onChange={(e) => setParticipant(p.id, { name: e.target.value })} aria-label="Participant name" />
+                        <input type="color" value={participantColor(p, i)} onChange={(e) => setParticipant(p.id, { color: e.target.value })} title="Name colour (WhatsApp, Snapchat, Discord)" style={{ width: 44, height: 34, border: "none", background: "transparent" }} />
+                        <label style={{ ...btnMini, display: "inline-block" }}>{p.avatarUrl ? 'Avatar ✓' : 'Avatar…'}<input type="file" accept="image/*" onChange={(e) => onParticipantAvatar(p.id, e)} style={{ display: "none" }} /></label>
+                        <button onClick={() => delParticipant(p.id)} style={btnMiniDanger} aria-label="Remove participant">✕</button>
+                      </div>
+                    ))}
+                    <button onClick={addParticipant} style={{ ...btnMini, marginTop: 8 }}>Add participant</button>
+                  </div>
+                )}
               </section>
 
               <section style={card}>
                 <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
                   <h4 style={{ ...h4, marginBottom: 0, flex: 1 }}>Messages</h4>
+                  <button onClick={() => setScriptMode("FORM")} style={speakerPill(scriptMode === "FORM")}>Form</button>
+                  <button onClick={openScriptText} style={speakerPill(scriptMode === "TEXT")} title="Edit the whole conversation as plain text">Paste script</button>
                   <button onClick={swapAll} style={btnMini}>Swap All</button>
                   <button onClick={resetDelays} style={btnMini}>Reset Delays</button>
+                  <button onClick={addTyping} style={btnMini} title="Give every receiver message without one a 1.5s typing bubble">Add Typing</button>
                   <button onClick={clearTapbacks} style={btnMiniDanger}>Clear Tapbacks</button>
                 </div>
+                {scriptMode === "TEXT" && (
+                  <div style={{ marginTop: 8 }}>
+                    <textarea value={scriptDraft} onChange={(e) => onScriptText(e.target.value)} spellCheck={false} rows={18} data-native-undo
+                      placeholder={"--- Today 7:42 PM ---\n> Hey, you free?\n< Yep!\n[typing 1.5] [delay 2]\n[tapback love]"}
+                      style={{ ...ta, fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace", fontSize: 13, lineHeight: 1.45, border: `1px solid ${scriptErrors.length ? '#7F1D1D' : BORDER}` }} />
+                    {scriptErrors.length > 0 ? (
+                      <div role="alert" style={{ marginTop: 8, padding: "8px 10px", borderRadius: 8, border: "1px solid #512626", background: "#2A1414", color: "#FFD1D1", fontSize: 12, fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" }}>
+                        {scriptErrors.slice(0, 12).map((er, k) => (<div key={k}>Line {er.line}: {er.message}</div>))}
+                        {scriptErrors.length > 12 && (<div>…and {scriptErrors.length - 12} more</div>)}
+                        <div style={{ marginTop: 4, opacity: .8, fontFamily: FONT }}>Preview keeps the last valid script until these are fixed.</div>
+                      </div>
+                    ) : (
+                      <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>{"> sender · < receiver · two-space indent continues a line · [delay s] [typing s] [tapback love @s] [receipt Read 7:43 PM @s] [from Name] [photo] [voice s] [link url | title | desc] [sticker] · --- separator --- · # comment"}</div>
+                    )}
+                    <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                      <label style={{ ...btnMini, display: "inline-block" }}>Import .txt<input type="file" accept=".txt,text/plain" onChange={onImportScript} style={{ display: "none" }} /></label>
+                      <button onClick={exportScript} style={btnMini}>Export .txt</button>
+                      <button onClick={() => navigator.clipboard?.writeText(serializeScript(messages, timeLine, { chat }))} style={btnMini}>Copy</button>
+                    </div>
+                  </div>
+                )}
+                {scriptMode === "FORM" && (<>
                 <div style={{ maxHeight: 420, overflowY: 'auto', marginTop: 8, paddingRight: 4 }}>
                   {messages.map((m, i) => (
-                    <div key={m.id}
+                    <div key={m.id} id={`msg-row-${m.id}`}
                       onDragOver={(e)=>{e.preventDefault(); setDragOverIndex(i);}}
                       onDragEnter={()=>setDragOverIndex(i)}
                       onDragLeave={()=>setDragOverIndex(null)}
                       onDrop={()=>handleDrop(i)}
-                      style={rowStyle(i===dragIndex, i===dragOverIndex)}>
-                      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto auto auto auto", gap: 8, alignItems: "center" }}>
+                      style={rowStyle(i===dragIndex, i===dragOverIndex || m.id===selectedMsg)}>
+                      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto auto auto auto auto", gap: 8, alignItems: "center" }}>
                         <div draggable onDragStart={()=>setDragIndex(i)} onDragEnd={()=>{setDragIndex(null); setDragOverIndex(null);}} title="Drag to re-order" style={dragHandle}>⋮⋮</div>
                         <div style={{ display:"flex", gap:8 }}>
                           <button onClick={()=>setField(m.id,{speaker:"SENDER"})} style={speakerPill(m.speaker==="SENDER")} aria-label="Sender">Sender</button>
                           <button onClick={()=>setField(m.id,{speaker:"RECEIVER"})} style={speakerPill(m.speaker==="RECEIVER")} aria-label="Receiver">Receiver</button>
+                          {chat.group && m.speaker === "RECEIVER" && chat.participants.length > 0 && (
+                            <select value={participantOf(chat, m)?.p.id} onChange={(e) => setField(m.id, { participant_id: e.target.value })} style={{ ...sel, width: "auto", marginTop: 0 }} aria-label="From">
+                              {chat.participants.map((p) => (<option key={p.id} value={p.id}>{p.name || "(unnamed)"}</option>))}
+                            </select>
+                          )}
                         </div>
                         <input type="number" min={0} step={0.1} value={m.delay_s ?? ""} placeholder="Delay (s) default 3.0" onChange={(e) => setField(m.id, { delay_s: e.target.value === "" ? undefined : Number(e.target.value) })} style={{ ...inp, width: 160 }} />
+                        <input type="number" min={0} step={0.1} value={m.speaker === "RECEIVER" ? (m.typing_s ?? "") : ""} disabled={m.speaker !== "RECEIVER"} title="Receiver only: show the typing bubble this long before the text" placeholder="Typing (s)" onChange={(e) => setField(m.id, { typing_s: e.target.value === "" ? undefined : Number(e.target.value) })} style={{ ...inp, width: 110, opacity: m.speaker === "RECEIVER" ? 1 : .45 }} />
                         <button onClick={() => upMsg(i)} style={btnMini} aria-label="Move up">▲</button>
                         <button onClick={() => dnMsg(i)} style={btnMini} aria-label="Move down">▼</button>
                         <button onClick={() => delMsg(m.id)} style={btnMiniDanger} aria-label="Delete">✕</button>
                       </div>
-                      <textarea value={m.text} onChange={(e) => setField(m.id, { text: e.target.value })} style={ta} rows={3} />
-                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
-                        <input style={inp} placeholder="Read receipt (optional)" value={m.read_receipt || ""} onChange={(e) => setField(m.id, { read_receipt: e.target.value || undefined })} />
+                      <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, flexWrap: "wrap" }}>
+                        <select value={m.kind || "text"} onChange={(e) => setField(m.id, { kind: e.target.value === "text" ? undefined : e.target.value })} style={{ ...sel, width: "auto", marginTop: 0 }} aria-label="Message type">
+                          <option value="text">Text</option>
+                          <option value="photo">Photo</option>
+                          <option value="voice">Voice note</option>
+                          <option value="link">Link preview</option>
+                          <option value="sticker">Sticker / big emoji</option>
+                        </select>
+                        {(m.kind === "photo" || m.kind === "sticker") && (
+                          <label style={{ ...btnMini, display: "inline-block" }}>{m.media_url ? "Replace image…" : (m.kind === "photo" ? "Upload photo…" : "Sticker image… (optional)")}<input type="file" accept="image/*" onChange={(e) => onMessageImage(m.id, 'media_url', e)} style={{ display: "none" }} /></label>
+                        )}
+                        {m.kind === "sticker" && m.media_url && (<button onClick={() => setField(m.id, { media_url: undefined, media_w: undefined, media_h: undefined })} style={btnMiniDanger}>Use emoji</button>)}
+                        {m.kind === "voice" && (
+                          <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}>Length (s)<input type="number" min={1} step={1} value={m.voice_s ?? ""} placeholder="5" onChange={(e) => setField(m.id, { voice_s: e.target.value === "" ? undefined : Number(e.target.value) })} style={{ ...inp, width: 80, marginTop: 0 }} /></label>
+                        )}
+                      </div>
+                      {m.kind === "link" && (
+                        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                          <input style={inp} placeholder="https://…" value={m.link_url || ""} onChange={(e) => setField(m.id, { link_url: e.target.value || undefined })} />
+                          <input style={inp} placeholder="Title (optional)" value={m.link_title || ""} onChange={(e) => setField(m.id, { link_title: e.target.value || undefined })} />
+                          <input style={inp} placeholder="Description (WhatsApp / Discord, optional)" value={m.link_desc || ""} onChange={(e) => setField(m.id, { link_desc: e.target.value || undefined })} />
+                          <label style={{ ...btnMini, display: "inline-block", marginTop: 6, textAlign: "center" }}>{m.link_image ? "Replace preview image…" : "Preview image…"}<input type="file" accept="image/*" onChange={(e) => onMessageImage(m.id, 'link_image', e)} style={{ display: "none" }} /></label>
+                        </div>
+                      )}
+                      {m.kind !== "voice" && (
+                        <textarea value={m.text} onChange={(e) => setField(m.id, { text: e.target.value })} style={ta} rows={m.kind === "sticker" ? 1 : 3}
+                          placeholder={m.kind === "photo" ? "Caption (optional)" : m.kind === "sticker" ? "Emoji, e.g. 😂" : m.kind === "link" ? "Message text (optional)" : undefined} />
+                      )}
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 96px 1fr 96px", gap: 8 }}>
+                        <input style={inp} list="receipt-presets" placeholder="Read receipt (optional)" value={m.read_receipt || ""} onChange={(e) => setField(m.id, { read_receipt: e.target.value || undefined })} />
+                        <input type="number" min={0} step={0.1} title="Receipt appears this many seconds after the bubble" placeholder="+0.0s" value={m.receipt_delay_s ?? ""} onChange={(e) => setField(m.id, { receipt_delay_s: e.target.value === "" ? undefined : Number(e.target.value) })} style={inp} />
                         <select value={m.tapback || ""} onChange={(e) => setField(m.id, { tapback: (e.target.value || null) })} style={sel}>
                           <option value="">Tapback: none</option>
                           <option value="like">Like</option>
@@ -624,11 +3742,33 @@ function FakeTextBuilder() {
                           <option value="emphasize">Emphasize</option>
                           <option value="question">Question</option>
                         </select>
+                        <input type="number" min={0} step={0.1} title="Tapback appears this many seconds after the bubble" placeholder="+0.0s" value={m.tapback_delay_s ?? ""} onChange={(e) => setField(m.id, { tapback_delay_s: e.target.value === "" ? undefined : Number(e.target.value) })} style={inp} />
+                      </div>
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+                        <select value={m.enter || ""} onChange={(e) => setField(m.id, { enter: e.target.value || undefined })} style={sel}>
+                          <option value="">Entrance: default ({ENTER_ANIMS[settings.enterAnim || 'none'].label})</option>
+                          {ENTER_KEYS.map((k) => (<option key={k} value={k}>Entrance: {ENTER_ANIMS[k].label}</option>))}
+                        </select>
+                        <select value={m.camera || ""} onChange={(e) => setField(m.id, { camera: e.target.value || undefined })} style={sel}>
+                          <option value="">Camera: none</option>
+                          {CAMERA_KEYS.map((k) => (<option key={k} value={k}>Camera: {CAMERA_MOVES[k].label}</option>))}
+                        </select>
+                      </div>
+                      <div style={{ display: "grid", gridTemplateColumns: "1fr 96px", gap: 8, alignItems: "center" }}>
+                        {AFTER_KEYS.filter((k) => k !== "failed" || m.speaker === "SENDER").map((k) => { const ev = AFTER_EVENTS[k], on = hasAfter(m, k); return (
+                          <React.Fragment key={k}>
+                            <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8, marginTop: 6 }}><input type="checkbox" checked={on} onChange={(e) => setField(m.id, afterPatch(m, k, e.target.checked))} /> Afterwards: {ev.label}</label>
+                            <input type="number" min={0} step={0.1} disabled={!on} title="Happens this many seconds after the bubble appears" placeholder={on ? `+${ev.dflt.toFixed(1)}s` : ""} value={on ? m[ev.delay] ?? "" : ""} onChange={(e) => setField(m.id, { [ev.delay]: e.target.value === "" ? undefined : Number(e.target.value) })} style={inp} />
+                            {k === "edited" && on && (<textarea style={{ ...ta, gridColumn: "1 / -1" }} rows={2} placeholder="Edited text" value={m.edited_text ?? ""} onChange={(e) => setField(m.id, { edited_text: e.target.value })} />)}
+                          </React.Fragment>
+                        ); })}
                       </div>
                     </div>
                   ))}
                 </div>
+                <datalist id="receipt-presets"><option value="Delivered" /><option value="Read" /><option value={`Read ${timeLine.replace(/^\D*/, '')}`} /></datalist>
                 <button onClick={addMsg} style={{ ...btn, width: "100%", marginTop: 12 }}>Add Message</button>
+                </>)}
               </section>
             </>
           )}
@@ -665,49 +3805,347 @@ function FakeTextBuilder() {
                   <SliderRow label="Header horizontal padding px" min={8} max={48} value={settings.headerPadHPx} onChange={(v)=>setUI({headerPadHPx:v})} />
                 </div>
               )}
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Motion</strong>
+                <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8, marginTop: 8 }}>
+                  <span style={{ fontSize: 12, opacity: 0.9 }}>Default entrance</span>
+                  <select value={settings.enterAnim || 'none'} onChange={(e) => setUI({ enterAnim: e.target.value as EnterAnim })} style={{ ...sel, marginTop: 0 }}>
+                    {ENTER_KEYS.map((k) => (<option key={k} value={k}>{ENTER_ANIMS[k].label}</option>))}
+                  </select>
+                </div>
+                <SliderRow label="Push-in over story %" min={0} max={30} value={settings.pushInPct} onChange={(v)=>setUI({pushInPct: Math.max(0, v)})} />
+                <div style={{ fontSize: 11, color: SUBTEXT }}>Per-message entrances and zoom / shake camera moves are set on each message in the Script tab (or <code>[enter pop]</code>, <code>[camera zoom]</code> in a script).</div>
+              </div>
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Phone chrome</strong>
+                <div style={{ display: "flex", flexWrap: "wrap", gap: 12, marginTop: 8, fontSize: 12 }}>
+                  <label><input type="checkbox" checked={settings.statusBar} onChange={(e)=>setUI({ statusBar: e.target.checked })} /> Status bar</label>
+                  <label><input type="checkbox" checked={settings.composer} onChange={(e)=>setUI({ composer: e.target.checked })} /> Composer</label>
+                  <label style={{ opacity: settings.composer ? 1 : 0.5 }}><input type="checkbox" checked={settings.keyboard} disabled={!settings.composer} onChange={(e)=>setUI({ keyboard: e.target.checked })} /> Keyboard</label>
+                  <label style={{ opacity: settings.composer ? 1 : 0.5 }}><input type="checkbox" checked={settings.composerTyping} disabled={!settings.composer} onChange={(e)=>setUI({ composerTyping: e.target.checked })} /> Type sent texts into the composer</label>
+                </div>
+                {settings.statusBar && (
+                  <>
+                    <label style={lbl}>Clock<input style={inp} value={settings.clock} onChange={(e)=>setUI({ clock: e.target.value })} /></label>
+                    <SliderRow label="Battery %" min={0} max={100} value={settings.batteryPct} onChange={(v)=>setUI({ batteryPct: Math.min(100, Math.max(0, v)) })} />
+                  </>
+                )}
+                <div style={{ fontSize: 11, color: SUBTEXT }}>Composer typing uses the end of the pause before each sent text, so the story's timing doesn't change.</div>
+              </div>
+              {(() => { const base = skinOf(settings.uiStyle).palette[settings.themeMode || 'DARK']; const hex = (v: string) => (/^#[0-9a-f]{6}$/i.test(v) ? v : '#000000'); return (
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <strong style={{ fontSize: 13, flex: 1 }}>Theme</strong>
+                  {theme && (<button onClick={() => setTheme(undefined)} style={btnMini}>Use skin colours</button>)}
+                </div>
+                <div style={{ fontSize: 11, color: SUBTEXT, marginTop: 4 }}>Recolours the {skinOf(settings.uiStyle).label} skin in light and dark mode; unset colours keep the skin's own.</div>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+                  <select value="" onChange={(e) => { const t = themePresets.find((p) => p.name === e.target.value); if (t) setTheme(t); }} style={{ ...sel, marginTop: 0, flex: 1 }}>
+                    <option value="">{themePresets.length ? 'Apply preset…' : 'No saved presets'}</option>
+                    {themePresets.map((t) => (<option key={t.name} value={t.name}>{t.name}</option>))}
+                  </select>
+                  <label style={{ ...btnMini, display: "inline-block" }}>Import…<input type="file" accept=".json,application/json" onChange={onImportTheme} style={{ display: "none" }} /></label>
+                  <button onClick={exportThemeFile} disabled={!theme} style={btnMini}>Export JSON</button>
+                </div>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+                  <input style={{ ...inp, marginTop: 0, flex: 1 }} placeholder="Preset name" value={theme?.name ?? ""} onChange={(e) => patchTheme((t) => ({ ...t, name: e.target.value }))} />
+                  <button onClick={saveThemePreset} disabled={!theme?.name.trim()} style={btnMini}>Save preset</button>
+                  {theme && themePresets.some((t) => t.name === theme.name) && (<button onClick={() => storeThemePresets(themePresets.filter((t) => t.name !== theme.name))} style={btnMiniDanger} aria-label="Delete preset">✕</button>)}
+                </div>
+                {themeError && (<div style={{ marginTop: 6, fontSize: 12, color: "#FCA5A5", whiteSpace: "pre-wrap" }}>{themeError}</div>)}
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8 }}>
+                  {THEME_COLOR_KEYS.map((k) => (
+                    <div key={k} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12 }}>
+                      <input type="color" value={hex(theme?.colors[k] ?? base[k])} onChange={(e) => setThemeColor(k, e.target.value)} disabled={k === 'send' && !!theme?.gradient} aria-label={THEME_COLORS[k]} />
+                      <span style={{ flex: 1, opacity: theme?.colors[k] ? 1 : 0.7 }}>{THEME_COLORS[k]}</span>
+                      {theme?.colors[k] && (<button onClick={() => setThemeColor(k, undefined)} style={btnMini} aria-label={`Reset ${THEME_COLORS[k]}`}>↺</button>)}
+                    </div>
+                  ))}
+                </div>
+                <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 6 }}>
+                  <input type="checkbox" checked={!!theme?.gradient} onChange={(e) => patchTheme((t) => ({ ...t, gradient: e.target.checked ? { from: '#A033FF', to: hex(t.colors.send ?? base.send), angle: 135 } : undefined }))} /> Gradient sent bubbles
+                </label>
+                {theme?.gradient && (() => { const g = theme.gradient; const setG = (patch: Partial<typeof g>) => patchTheme((t) => ({ ...t, gradient: { ...g, ...patch } })); return (
+                  <>
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                      <label style={lbl}>From<input type="color" value={g.from} onChange={(e)=>setG({ from: e.target.value })} style={{ ...inp, padding: 2, height: 36 }} /></label>
+                      <label style={lbl}>To<input type="color" value={g.to} onChange={(e)=>setG({ to: e.target.value })} style={{ ...inp, padding: 2, height: 36 }} /></label>
+                    </div>
+                    <SliderRow label="Angle (deg)" min={0} max={360} value={g.angle} onChange={(v)=>setG({ angle: v })} />
+                  </>
+                ); })()}
+                <label style={lbl}>Font family
+                  <input style={inp} placeholder="e.g. Georgia, serif (blank = the skin's)" value={theme?.font?.family ?? ""} onChange={(e) => patchTheme((t) => ({ ...t, font: e.target.value ? { ...t.font, family: e.target.value.replace(UNSAFE_FAMILY, '') } : undefined }))} />
+                </label>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 6 }}>
+                  <label style={{ ...btnMini, display: "inline-block" }}>{theme?.font?.dataUrl ? 'Replace font…' : 'Upload font…'}<input type="file" accept=".woff,.woff2,.ttf,.otf,font/*" onChange={onThemeFont} style={{ display: "none" }} /></label>
+                  {theme?.font?.dataUrl && (<span style={{ fontSize: 12, color: SUBTEXT, flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{theme.font.fileName || theme.font.family}</span>)}
+                  {theme?.font?.dataUrl && (<button onClick={() => patchTheme((t) => ({ ...t, font: undefined }))} style={btnMiniDanger} aria-label="Remove font">✕</button>)}
+                </div>
+              </div>
+              ); })()}
             </section>
           )}
 
           {tab === "BACKGROUND" && (
             <section style={card}>
               <h4 style={h4}>Background</h4>
-              <p style={{opacity:.8, marginTop:0, marginBottom:8, fontSize:12}}>Choose a solid background color for the canvas (export uses the same).</p>
-              <div style={{ display:"grid", gridTemplateColumns:"repeat(9, 1fr)", gap:10 }}>
+              <p style={{opacity:.8, marginTop:0, marginBottom:8, fontSize:12}}>Solid colour, gradient, image or looping video behind the chat (export uses the same).</p>
+              <Segmented value={background.type} onChange={(k)=>setBackground((b)=>({ ...b, type: k as BackgroundType, gradient: k === 'gradient' ? (b.gradient ?? { ...DEFAULT_GRADIENT }) : b.gradient }))} options={[{ key: 'solid', label: 'Solid' }, { key: 'gradient', label: 'Gradient' }, { key: 'image', label: 'Image' }, { key: 'video', label: 'Video' }]} />
+              <div style={{ display:"grid", gridTemplateColumns:"repeat(9, 1fr)", gap:10, marginTop:12 }}>
                 {["#D0021B","#000000","#111827","#0A84FF","#1C1C1E","#10B981","#F59E0B","#8B5CF6","#FFFFFF"].map((c)=> (
                   <button key={c} onClick={()=>setBgColor(c)} title={c} style={{ width:32, height:32, borderRadius:8, border: `2px solid ${bgColor===c?BLUE:BORDER}`, background: c }} />
                 ))}
               </div>
               <div style={{marginTop:12}}>
-                <label style={lbl}>Custom hex
+                <label style={lbl}>{background.type === 'solid' ? 'Custom hex' : 'Base colour (hex)'}
                   <input style={inp} placeholder="#RRGGBB" value={bgColor} onChange={(e)=>setBgColor(e.target.value)} />
                 </label>
               </div>
+              {background.type === 'gradient' && background.gradient && (() => { const g = background.gradient; const setG = (patch: Partial<typeof g>) => setBackground((b) => ({ ...b, gradient: { ...g, ...patch } })); return (
+                <div style={{ marginTop: 8, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                  <Segmented value={g.kind} onChange={(k)=>setG({ kind: k as 'linear' | 'radial' })} options={[{ key: 'linear', label: 'Linear' }, { key: 'radial', label: 'Radial' }]} />
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                    <label style={lbl}>From<input type="color" value={g.from} onChange={(e)=>setG({ from: e.target.value })} style={{ ...inp, padding: 2, height: 36 }} /></label>
+                    <label style={lbl}>To<input type="color" value={g.to} onChange={(e)=>setG({ to: e.target.value })} style={{ ...inp, padding: 2, height: 36 }} /></label>
+                  </div>
+                  {g.kind === 'linear' && (<SliderRow label="Angle (deg)" min={0} max={360} value={g.angle} onChange={(v)=>setG({ angle: v })} />)}
+                </div>
+              ); })()}
+              {(background.type === 'image' || background.type === 'video') && (
+                <div style={{ marginTop: 8, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                  <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                    <label style={{ ...btnMini, display: "inline-block" }}>{background.media ? 'Replace…' : background.type === 'image' ? 'Upload image…' : 'Upload video…'}<input type="file" accept={background.type === 'image' ? 'image/*' : 'video/*'} onChange={onBackgroundMedia} style={{ display: "none" }} /></label>
+                    {background.media && (<span style={{ fontSize: 12, color: SUBTEXT, flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{background.media.name}</span>)}
+                    {background.media && (<button onClick={() => setBackground((b) => ({ ...b, type: 'solid', media: undefined }))} style={btnMiniDanger} aria-label="Remove background media">✕</button>)}
+                  </div>
+                  {bgError && (<div style={{ marginTop: 6, fontSize: 12, color: "#FCA5A5", whiteSpace: "pre-wrap" }}>{bgError}</div>)}
+                  {background.media && (
+                    <>
+                      <div style={{ marginTop: 8 }}><Segmented value={background.media.fit} onChange={(k)=>setBgMediaField({ fit: k as 'cover' | 'contain' })} options={[{ key: 'cover', label: 'Cover' }, { key: 'contain', label: 'Contain' }]} /></div>
+                      <SliderRow label="Blur (px)" min={0} max={60} value={background.media.blur} onChange={(v)=>setBgMediaField({ blur: Math.max(0, v) })} />
+                      <SliderRow label="Dim %" min={0} max={90} value={Math.round(background.media.dim * 100)} onChange={(v)=>setBgMediaField({ dim: clamp01(v / 100) })} />
+                    </>
+                  )}
+                  {background.type === 'video' && (<div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>The video loops silently behind the story; exports seek it to each frame's exact time.</div>)}
+                </div>
+              )}
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Captions</strong>
+                <label style={lbl}>Top (hook line)<input style={inp} placeholder="e.g. My ex texted me at 3am…" value={background.captions?.top ?? ""} onChange={(e)=>setCaptions({ top: e.target.value })} /></label>
+                <label style={lbl}>Bottom<input style={inp} placeholder="e.g. Part 1 · follow for more" value={background.captions?.bottom ?? ""} onChange={(e)=>setCaptions({ bottom: e.target.value })} /></label>
+                {(background.captions?.top || background.captions?.bottom) && (
+                  <>
+                    <SliderRow label="Caption font px" min={24} max={120} value={background.captions.fontPx} onChange={(v)=>setCaptions({ fontPx: Math.max(8, v) })} />
+                    <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 4 }}>
+                      <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}>Colour<input type="color" value={background.captions.color} onChange={(e)=>setCaptions({ color: e.target.value })} /></label>
+                      <label style={{ fontSize: 12 }}><input type="checkbox" checked={background.captions.box} onChange={(e)=>setCaptions({ box: e.target.checked })} /> Box behind text</label>
+                    </div>
+                  </>
+                )}
+              </div>
             </section>
           )}
 
           {tab === "EXPORT" && (
             <section style={card}>
               <h4 style={h4}>Export</h4>
-              <p style={{ marginTop: 0, color: SUBTEXT, fontSize: 13 }}>Render an MP4 that matches the live preview exactly. This runs fully in-browser; large exports can take a while.</p>
+              <p style={{ marginTop: 0, color: SUBTEXT, fontSize: 13 }}>Render a video that matches the live preview exactly. This runs fully in-browser; large exports can take a while.</p>
+              <div style={{ marginTop: 8, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Output</strong>
+                <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8, marginTop: 8 }}>
+                  <span style={{ fontSize: 12, opacity: 0.9 }}>Format</span>
+                  <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} style={{ ...sel, marginTop: 0 }}>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((k) => (<option key={k} value={k}>{EXPORT_FORMATS[k].label}</option>))}
+                  </select>
+                  <span style={{ fontSize: 12, opacity: 0.9 }}>Frame rate</span>
+                  <Segmented value={String(fps)} onChange={(k) => setFps(Number(k))} options={FPS_OPTIONS.map((f) => ({ key: String(f), label: `${f} fps` }))} />
+                  <span style={{ fontSize: 12, opacity: 0.9 }}>Canvas</span>
+                  <select value={canvasPreset} onChange={(e) => { const p = CANVAS_PRESETS.find((x) => x.key === e.target.value); setCustomCanvas(!p); if (p) setCanvasSize({ w: p.w, h: p.h }); }} style={{ ...sel, marginTop: 0 }}>
+                    {CANVAS_PRESETS.map((p) => (<option key={p.key} value={p.key}>{p.label} ({p.w}×{p.h})</option>))}
+                    <option value="custom">Custom…</option>
+                  </select>
+                </div>
+                {canvasPreset === 'custom' && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                    <label style={lbl}>Width (px)<input key={`w${canvasSize.w}`} type="number" min={240} max={4096} step={2} defaultValue={canvasSize.w} onBlur={(e) => setCanvasSize((c) => ({ ...c, w: evenPx(Number(e.target.value), c.w) }))} style={inp} /></label>
+                    <label style={lbl}>Height (px)<input key={`h${canvasSize.h}`} type="number" min={240} max={4096} step={2} defaultValue={canvasSize.h} onBlur={(e) => setCanvasSize((c) => ({ ...c, h: evenPx(Number(e.target.value), c.h) }))} style={inp} /></label>
+                  </div>
+                )}
+                <div style={{ marginTop: 6, fontSize: 11, color: SUBTEXT }}>
+                  {format === 'webm' ? 'Transparent background (the Background tab is left out, captions stay) so the chat can sit over other footage.' : format === 'gif' ? 'GIFs are capped at 720 px wide and 30 fps and carry no sound.' : format === 'png' ? 'One PNG per frame plus audio.wav, zipped.' : 'H.264 + AAC, plays everywhere.'}
+                </div>
+              </div>
+              <div style={{ marginTop: 8, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Pacing</strong>
+                <div style={{ marginTop: 8 }}>
+                  <Segmented value={pacing.mode} onChange={(k) => setPacingField({ mode: k as PacingMode })} options={[{ key: 'fit', label: 'Fit to length' }, { key: 'natural', label: 'Natural' }, { key: 'reading', label: 'Reading speed' }]} />
+                </div>
+                {pacing.mode === 'fit' && (<SliderRow label="Fit to (s)" min={5} max={180} value={pacing.fitS} onChange={(v) => setPacingField({ fitS: Math.max(3, v) })} />)}
+                {pacing.mode === 'reading' && (<SliderRow label="Words per minute" min={100} max={400} value={pacing.wpm} onChange={(v) => setPacingField({ wpm: Math.min(1000, Math.max(60, v)) })} />)}
+                <div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>
+                  {pacing.mode === 'fit' ? 'Longer stories are sped up to fit; shorter ones play at their own pace.' : pacing.mode === 'natural' ? 'Every delay plays as written, however long the story gets.' : 'Messages without their own delay stay up as long as they take to read. Explicit delays and narration still win.'}
+                  {' '}Natural length {fmt(storyTiming(paceMessages(timedMessages, pacing)).naturalMs)}.
+                </div>
+                <SliderRow label="Split into parts of (s, 0 = off)" min={0} max={180} value={pacing.partS} onChange={(v) => setPacingField({ partS: v < 5 ? 0 : v })} />
+                {pacing.partS > 0 && (
+                  <>
+                    <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8 }}><input type="checkbox" checked={pacing.endCards} onChange={(e) => setPacingField({ endCards: e.target.checked })} /> "Part 2 →" end card on every part but the last</label>
+                    <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8, marginTop: 8 }}>
+                      <span style={{ fontSize: 12, opacity: 0.9 }}>Preview</span>
+                      <select value={cut.part} onChange={(e) => setPreviewPart(Number(e.target.value))} style={{ ...sel, marginTop: 0 }}>
+                        {Array.from({ length: cut.parts }, (_, k) => (<option key={k} value={k}>Part {k + 1} of {cut.parts}</option>))}
+                      </select>
+                    </div>
+                    <div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>Parts break between messages and export as separate numbered files.</div>
+                  </>
+                )}
+              </div>
+              <div style={{ marginTop: 8, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                  <strong style={{ fontSize: 13, flex: 1 }}>Audio</strong>
+                  <label style={{ fontSize: 12 }}><input type="checkbox" checked={previewMuted} onChange={(e) => setPreviewMuted(e.target.checked)} /> Mute preview</label>
+                </div>
+                <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8 }}><input type="checkbox" checked={audio.messageSounds} onChange={(e) => setAudio((a) => ({ ...a, messageSounds: e.target.checked }))} /> Message sounds (whoosh on send, ding on receive)</label>
+                {audio.messageSounds && (<SliderRow label="Sound volume %" min={0} max={100} value={Math.round(audio.soundVolume * 100)} onChange={(v)=>setAudio((a) => ({ ...a, soundVolume: v / 100 }))} />)}
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+                  <label style={{ ...btnMini, display: "inline-block" }}>{audio.music ? 'Replace music…' : 'Background music…'}<input type="file" accept="audio/*" onChange={onMusic} style={{ display: "none" }} /></label>
+                  {audio.music && (<span style={{ fontSize: 12, color: SUBTEXT, flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{audio.music.name}</span>)}
+                  {audio.music && (<button onClick={() => setAudio((a) => ({ ...a, music: undefined }))} style={btnMiniDanger} aria-label="Remove music">✕</button>)}
+                </div>
+                {audio.music && (
+                  <>
+                    <SliderRow label="Music volume %" min={0} max={100} value={Math.round(audio.music.volume * 100)} onChange={(v)=>setMusic({ volume: v / 100 })} />
+                    <SliderRow label="Fade-out (s)" min={0} max={10} value={audio.music.fadeOutS} onChange={(v)=>setMusic({ fadeOutS: v })} />
+                    <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8 }}><input type="checkbox" checked={audio.music.duck} onChange={(e) => setMusic({ duck: e.target.checked })} /> Duck music under message sounds and narration</label>
+                  </>
+                )}
+                <label style={{ ...lbl, display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}><input type="checkbox" checked={audio.narration.enabled} onChange={(e) => setNarration({ enabled: e.target.checked })} /> Narrate messages (text-to-speech)</label>
+                {audio.narration.enabled && (
+                  <>
+                    <div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>Each narrated message stays on screen for its spoken line instead of its delay. Voice notes and stickers are not read. {narrator.note}</div>
+                    <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", alignItems: "center", gap: 8, marginTop: 8 }}>
+                      <span style={{ fontSize: 12, opacity: 0.9 }}>Engine</span>
+                      <select value={narrator.id} onChange={(e) => setNarration({ provider: e.target.value, voices: {} })} style={{ ...sel, marginTop: 0 }}>
+                        {Object.values(VOICE_PROVIDERS).map((p) => (<option key={p.id} value={p.id}>{p.label}</option>))}
+                      </select>
+                      {narrationSpeakers.map((sp) => (
+                        <React.Fragment key={sp.key}>
+                          <span style={{ fontSize: 12, opacity: 0.9, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>Voice · {sp.label}</span>
+                          <select value={audio.narration.voices[sp.key] || narrator.defaultVoice(sp.slot)} onChange={(e) => setNarration({ voices: { ...audio.narration.voices, [sp.key]: e.target.value } })} style={{ ...sel, marginTop: 0 }}>
+                            {narrator.voices.map((v) => (<option key={v.id} value={v.id}>{v.label}</option>))}
+                          </select>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                    <SliderRow label="Narration volume %" min={0} max={100} value={Math.round(audio.narration.volume * 100)} onChange={(v)=>setNarration({ volume: v / 100 })} />
+                    {narrating && (<div style={{ fontSize: 12, color: SUBTEXT }}>Synthesising voices…</div>)}
+                  </>
+                )}
+              </div>
               <div style={{ display: 'flex', gap: 12, marginTop: 8, alignItems:'center' }}>
-                <button onClick={exportMp4Exact} disabled={exporting} style={btnPrimary}>{exporting? 'Rendering…' : 'Render MP4 (exact)'}</button>
+                <button onClick={exportExact} disabled={exporting} style={btnPrimary}>{exporting? 'Rendering…' : `Render ${EXPORT_FORMATS[format].short} (exact)`}</button>
                 <button onClick={downloadManifest} style={toolbarBtn}>Download Render Manifest (.json)</button>
               </div>
-              {exporting && (
-                <div style={{ marginTop: 10, color: SUBTEXT, fontSize: 12 }}>{exportNote}</div>
+              {exporting && exportProgress && (<ExportProgressBar p={exportProgress} onCancel={cancelExport} />)}
+              {exporting && !exportProgress && (
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 10, color: SUBTEXT, fontSize: 12 }}>{exportNote}<button onClick={cancelExport} style={btnMiniDanger}>Cancel</button></div>
               )}
+              {!exporting && exportNote && (<div style={{ marginTop: 10, color: SUBTEXT, fontSize: 12 }}>{exportNote}</div>)}
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Stills</strong>
+                <div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>PNG images from the same renderer as the video{EXPORT_FORMATS[format].alpha ? ' (transparent, like the WebM)' : ''}. The full chat is one tall image with every message of every scene, nothing scrolled away.</div>
+                <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+                  <button onClick={() => exportStill('frame')} disabled={exporting} style={btnMini}>PNG at playhead</button>
+                  <button onClick={() => exportStill('tall')} disabled={exporting} style={btnMini}>Full chat (tall PNG)</button>
+                </div>
+                <strong style={{ fontSize: 13, display: "block", marginTop: 12 }}>Thumbnail</strong>
+                <label style={lbl}>Title<textarea value={thumb.title} onChange={(e) => setThumb({ title: e.target.value })} style={ta} rows={2} placeholder="e.g. She did NOT see this coming 😳" /></label>
+                <SliderRow label="Title font px" min={48} max={240} value={thumb.fontPx} onChange={(v) => setThumb({ fontPx: Math.max(8, v) })} />
+                <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 4, flexWrap: "wrap" }}>
+                  <Segmented value={thumb.position} onChange={(k) => setThumb({ position: k as ThumbnailPosition })} options={THUMB_POSITIONS.map((k) => ({ key: k, label: k[0].toUpperCase() + k.slice(1) }))} />
+                  <label style={{ fontSize: 12, display: "flex", alignItems: "center", gap: 6 }}>Colour<input type="color" value={thumb.color} onChange={(e) => setThumb({ color: e.target.value })} /></label>
+                  <label style={{ fontSize: 12 }}><input type="checkbox" checked={thumb.box} onChange={(e) => setThumb({ box: e.target.checked })} /> Box behind text</label>
+                </div>
+                <SliderRow label="Dim the frame %" min={0} max={90} value={Math.round(thumb.dim * 100)} onChange={(v) => setThumb({ dim: clamp01(v / 100) })} />
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8, fontSize: 12, color: SUBTEXT, flexWrap: "wrap" }}>
+                  <span style={{ flex: 1 }}>Frame: {thumb.at_s != null ? `at ${fmt(thumb.at_s * 1000)}` : 'the last one'}</span>
+                  <button onClick={() => setThumb({ at_s: Math.round(previewClock.ms / 10) / 100 })} style={btnMini}>Use playhead</button>
+                  {thumb.at_s != null && (<button onClick={() => setThumb({ at_s: undefined })} style={btnMini}>Last frame</button>)}
+                  <label><input type="checkbox" checked={showThumb} onChange={(e) => { setShowThumb(e.target.checked); if (e.target.checked) previewClock.seek?.(thumb.at_s != null ? thumb.at_s * 1000 : cut.totalMs); }} /> Show on preview</label>
+                </div>
+                <button onClick={() => exportStill('thumbnail')} disabled={exporting} style={{ ...btnPrimary, marginTop: 8 }}>Export thumbnail (PNG)</button>
+              </div>
+              <div style={{ marginTop: 12, padding: 10, borderRadius: 10, border: `1px solid ${BORDER}` }}>
+                <strong style={{ fontSize: 13 }}>Batch from a list</strong>
+                <div style={{ marginTop: 4, fontSize: 11, color: SUBTEXT }}>Write {'{{column}}'} in the contact name, time line or message text, then load a CSV (first line names the columns) or a JSON array of rows. Each row renders one {EXPORT_FORMATS[batchFormat].short} with the template's settings; a <code>file</code> column names the outputs.</div>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+                  <label style={{ ...btnMini, display: "inline-block" }}>{batch.length ? 'Replace rows…' : 'Rows (CSV / JSON)…'}<input type="file" accept=".csv,.json,text/csv,application/json" onChange={onBatchRows} style={{ display: "none" }} /></label>
+                  <label style={{ ...btnMini, display: "inline-block" }} title="Defaults to this project">{batchTemplate ? 'Replace template…' : 'Template manifest…'}<input type="file" accept="application/json,.json" onChange={onBatchTemplate} style={{ display: "none" }} /></label>
+                  <span style={{ flex: 1, fontSize: 12, color: SUBTEXT, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>Template: {batchTemplate ? batchTemplate.name : 'this project'}{batchRowsName ? ` · ${batch.length} rows from ${batchRowsName}` : ''}</span>
+                  {batchTemplate && (<button onClick={() => setBatchTemplate(null)} style={btnMiniDanger} aria-label="Use this project as the template">✕</button>)}
+                </div>
+                <div style={{ marginTop: 6, fontSize: 12, color: batchMissing.length ? "#FCA5A5" : SUBTEXT }}>
+                  {batchFields.length ? `Placeholders: ${batchFields.map((k) => `{{${k}}}`).join(', ')}` : 'No placeholders in the template yet.'}
+                  {batchMissing.length > 0 && ` · no column for ${batchMissing.map((k) => `{{${k}}}`).join(', ')}`}
+                </div>
+                {batchError && (<div role="alert" style={{ marginTop: 8, padding: "8px 10px", borderRadius: 8, border: "1px solid #512626", background: "#2A1414", color: "#FFD1D1", fontSize: 12 }}>{batchError}</div>)}
+                {batch.length > 0 && (
+                  <div style={{ marginTop: 8, maxHeight: 220, overflowY: "auto" }}>
+                    {batch.map((it, i) => (
+                      <div key={it.name} style={{ display: "flex", alignItems: "center", gap: 8, padding: "4px 0", fontSize: 12 }}>
+                        <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{it.name}</span>
+                        <span style={{ color: it.status === 'failed' ? "#FCA5A5" : it.status === 'done' ? "#86EFAC" : SUBTEXT, maxWidth: "60%", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={it.error}>
+                          {it.status === 'queued' ? 'Queued' : it.status === 'rendering' ? `Rendering${it.attempts > 1 ? ` (try ${it.attempts}/${BATCH_ATTEMPTS})` : '…'}` : it.status === 'done' ? 'Done' : `Failed: ${it.error}`}
+                        </span>
+                        {it.status === 'failed' && (<button onClick={() => retryBatchItem(i)} disabled={exporting} style={btnMini}>Retry</button>)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div style={{ display: "flex", gap: 12, marginTop: 8, alignItems: "center" }}>
+                  <button onClick={() => runBatch(batch)} disabled={exporting || !batch.some((it) => it.status === 'queued')} style={btnPrimary}>Render batch ({batch.filter((it) => it.status === 'queued').length})</button>
+                  <button onClick={downloadBatchZip} disabled={!batch.some((it) => it.status === 'done')} style={toolbarBtn}>Download all (.zip)</button>
+                </div>
+              </div>
             </section>
           )}
         </div>
       </div>
 
       {/* Responsive, centered preview column (~one-third width) */}
-      <div style={{ width: PRE_W, height: "calc(100vh - 48px)", position: isNarrow?"static":"sticky", top: 24, display: "flex", alignItems: "flex-start", justifyContent: "center", margin: isNarrow?"0 auto":undefined }}>
-        <div id="preview-box" style={{ position: 'relative', width: PRE_W, height: PRE_H, background: "#000", borderRadius: 20, overflow: "hidden", boxShadow: "0 20px 80px rgba(0,0,0,.45)" }}>
-          <div style={{ position: 'absolute', left: offsetX, top: offsetY, width: CANVAS.w, height: CANVAS.h, transform: `scale(${scale})`, transformOrigin: "top left" }}>
-            <FakeTextPreview contactName={contactName} avatarUrl={avatarUrl} timeLine={timeLine} messages={messages} settings={settings} bgColor={bgColor} timeScale={timeScale} durationMs={Math.min(naturalDurationMs, MAX_EXPORT_MS)} />
+      <div style={{ width: PRE_W, height: "calc(100vh - 48px)", position: isNarrow?"static":"sticky", top: 24, display: "flex", flexDirection: "column", alignItems: "center", gap: 12, overflowY: "auto", margin: isNarrow?"0 auto":undefined }}>
+        <div id="preview-box" style={{ position: 'relative', flexShrink: 0, width: PRE_W, height: PRE_H, background: "#000", borderRadius: 20, overflow: "hidden", boxShadow: "0 20px 80px rgba(0,0,0,.45)" }}>
+          <div style={{ position: 'absolute', left: offsetX, top: offsetY, width: canvasSize.w, height: canvasSize.h, transform: `scale(${scale})`, transformOrigin: "top left" }}>
+            {allScenes.length > 1 || layout.mode === 'SPLIT'
+              ? (<StoryPreview plans={plans} layout={layout} canvas={canvasSize} durationMs={cut.totalMs} timeScale={cut.timeScale} audio={previewMuted ? null : audioMix} clock={previewClock} endCard={cut.endCard} intro={cut.intro} media={sceneMedia} />)
+              : (<FakeTextPreview contactName={contactName} avatarUrl={avatarUrl} timeLine={timeLine} messages={cut.messages} settings={settings} bgColor={bgColor} timeScale={cut.timeScale} durationMs={cut.totalMs} chat={chat} audio={previewMuted ? null : audioMix} canvas={canvasSize} endCard={cut.endCard} intro={cut.intro} background={background} bgMedia={bgMedia} theme={theme} clock={previewClock} />)}
+            {showThumb && tab === "EXPORT" && (<ThumbnailTitle thumb={thumb} canvas={canvasSize} />)}
           </div>
         </div>
+        <TimelineEditor messages={cut.messages} timeScale={cut.timeScale} totalMs={cut.totalMs} introMs={cut.introMs} clock={previewClock} selectedId={selectedMsg} locked={lockedIds} onSelect={selectMessage} onDelay={(id, delay_s) => setField(id, { delay_s })} />
+      </div>
+    </div>
+  );
+}
+
+/** Phase, bar, counts and an ETA extrapolated from the phase's elapsed time */
+function ExportProgressBar({ p, onCancel }: { p: ExportProgress; onCancel: () => void }) {
+  const ratio = p.total ? clamp01(p.done / p.total) : 0;
+  const elapsed = performance.now() - p.startedAt;
+  const eta = ratio > 0.02 ? (elapsed / ratio) * (1 - ratio) : null;
+  return (
+    <div style={{ marginTop: 10 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 12, color: SUBTEXT }}>
+        <span style={{ flex: 1 }}>
+          {p.phase}{p.total > 1 && p.unique === undefined ? ` · ${Math.round(ratio * 100)}%` : ''}
+          {p.unique !== undefined && ` · frame ${p.done}/${p.total} (${p.unique} unique)`}
+          {eta !== null && ratio < 1 && ` · ETA ${fmt(eta)}`}
+        </span>
+        <button onClick={onCancel} style={btnMiniDanger}>Cancel</button>
+      </div>
+      <div style={{ marginTop: 6, height: 6, borderRadius: 3, background: "rgba(255,255,255,.08)", overflow: "hidden" }}>
+        <div style={{ width: pct(ratio), height: "100%", background: BLUE }} />
       </div>
     </div>
   );
@@ -785,7 +4223,65 @@ export default function App(){
     const c = a.map((x) => ({ ...x, text: x.text.toUpperCase() })); console.assert(c !== a && c[0].text === "A" && a[0].text === "a", "map clone immutability");
     console.assert(pct(0.335).endsWith("%"), "pct() percent");
     console.assert(typeof calcPctOffset(0.5, 8) === "string", "calcPctOffset string");
+    // an unversioned manifest migrates to the current version and survives a save/load round trip
+    const v1 = parseProject({ kind: "FAKE_TEXT", meta: { contactName: "Anna", timeLine: "Today" }, messages: [{ id: "m1", speaker: "SENDER", text: "Hi" }] });
+    console.assert(v1.version === PROJECT_VERSION && !v1.audio.messageSounds && v1.output.format === "mp4" && v1.pacing.mode === DEFAULT_PACING.mode && v1.chat.participants.length === 0, "parseProject() migrates v1");
+    console.assert(JSON.stringify(parseProject(JSON.parse(JSON.stringify(v1)))) === JSON.stringify(v1), "parseProject() round trip");
+    // script text round-trips, blank lines and multi-line edits included
+    const script: Message[] = [{ id: "s1", speaker: "SENDER", text: "one\n\nthree", edited_text: "a\nb \\n", edit_delay_s: 2 }, { id: "s2", speaker: "RECEIVER", text: "ok", typing_s: 1.5, tapback: "love" }];
+    const reparsed = parseScript(serializeScript(script, "Today"), script);
+    console.assert(reparsed.errors.length === 0 && reparsed.timeLine === "Today" && JSON.stringify(reparsed.messages) === JSON.stringify(script), "parseScript(serializeScript()) round trip");
+    // ids and unwritten fields follow the message, not the line: a line inserted above, the photo's caption edited
+    const shot: Message[] = [{ id: "a", speaker: "SENDER", text: "look", kind: "photo", media_url: "data:x" }, { id: "b", speaker: "RECEIVER", text: "wow", read_receipt: "Read [7:43]", participant_id: "p" }];
+    const moved = parseScript("> hi\n> look!\n[photo]\n" + serializeScript(shot.slice(1)), shot);
+    console.assert(moved.errors.length === 0 && moved.messages.map((m) => m.id).slice(1).join() === "a,b" && moved.messages[0].id !== "a" && moved.messages[1].media_url === "data:x" && moved.messages[2].read_receipt === "Read [7:43]" && moved.messages[2].participant_id === "p", "parseScript() matches messages by content");
+    // six 3 s messages: 10 s parts hold two each (7.5 s with the tail pad); fit pacing halves a 19.5 s story into 9.75 s
+    const six: Message[] = Array.from({ length: 6 }, (_, i) => ({ id: `p${i}`, speaker: i % 2 ? "RECEIVER" : "SENDER", text: "x" }));
+    const natural: PacingSettings = { ...DEFAULT_PACING, mode: "natural", partS: 10 };
+    console.assert(JSON.stringify(storyParts(six, natural)) === "[[0,2],[2,4],[4,6]]", "storyParts() greedy split");
+    const mid = storyCut(six, natural, 1);
+    console.assert(mid.parts === 3 && mid.messages.map((m) => m.id).join() === "p2,p3" && mid.endCard?.label === "Part 3 →" && mid.totalMs === 7500 + END_CARD_MS, "storyCut() middle part");
+    const fit = storyCut(six, { ...DEFAULT_PACING, fitS: 9.75 });
+    console.assert(fit.parts === 1 && fit.timeScale === 2 && fit.totalMs === 9750 && !fit.endCard, "storyCut() fit pacing");
+    // batch rows: quoted commas, line breaks and "" escapes; placeholders filled per row, a missing column refused
+    console.assert(JSON.stringify(parseCsv('name,line\r\n"Smith, Jo","a\nb ""q"""\n\nBo,x\n')) === JSON.stringify([["name", "line"], ["Smith, Jo", 'a\nb "q"'], ["Bo", "x"]]), "parseCsv() quoting");
+    const tpl = { ...v1, meta: { ...v1.meta, contactName: "{{ name }}" } };
+    console.assert(fillTemplate(tpl, { name: "Jo" }).meta.contactName === "Jo", "fillTemplate() fills placeholders");
+    let refused = false; try { fillTemplate(tpl, {}); } catch { refused = true; }
+    console.assert(refused, "fillTemplate() refuses a missing column");
+    // scenes: a transition lengthens the pause before the next chat; the other phone's mirror keeps every bubble's time
+    const folded = foldScenes([{ transition: "cut", messages: six.slice(0, 2) }, { transition: "swipe", messages: six.slice(2, 3) }], natural);
+    console.assert(folded.length === 3 && folded[1].delay_s === 3 + SCENE_TRANSITIONS.swipe.ms / 1000 && folded[0].delay_s === undefined, "foldScenes() transition pause");
+    const convo: Message[] = [{ id: "c1", speaker: "RECEIVER", text: "hey", typing_s: 2 }, { id: "c2", speaker: "SENDER", text: "hi", delay_s: 1 }, { id: "c3", speaker: "RECEIVER", text: "ok", typing_s: 1.5 }];
+    const mirror = mirrorScene(convo, DEFAULT_CHAT, "Me", 1), shows = (list: Message[]) => buildSchedule(list).entries.map((e) => e.show);
+    console.assert(mirror.offsetMs === 2000 && mirror.messages.map((m) => m.speaker).join() === "SENDER,RECEIVER,SENDER" && shows(mirror.messages).map((t) => t + mirror.offsetMs).join() === shows(convo).join(), "mirrorScene() offsets");
+    // a failed send before anything reaches the other phone still delays it
+    const late = mirrorScene([{ id: "f1", speaker: "SENDER", text: "??", failed: true, delay_s: 2.5 }, ...convo], DEFAULT_CHAT, "Me", 1.6);
+    console.assert(late.offsetMs === Math.round(2500 / 1.6) + Math.round(2000 / 1.6) && buildSchedule(late.messages, 1.6).entries.map((e) => e.show + late.offsetMs).join() === buildSchedule(convo, 1.6).entries.map((e) => e.show + Math.round(2500 / 1.6)).join(), "mirrorScene() leading failed send");
+    // later changes land at their offsets after the bubble shows (time-scaled like everything else)
+    const changes: Message[] = [{ id: "e1", speaker: "RECEIVER", text: "hey", typing_s: 1, delay_s: 2, edited_text: "hey!", edit_delay_s: 4 }, { id: "e2", speaker: "SENDER", text: "oops", unsent: true }, { id: "e3", speaker: "SENDER", text: "hello?", failed: true, fail_delay_s: 0.5 }];
+    const sched = buildSchedule(changes), [e1, e2, e3] = sched.entries;
+    console.assert(e1.show === 1000 && e1.editAt === 5000 && e2.start === 3000 && e2.unsendAt === 5000 && e3.show === 6000 && e3.failAt === 6500 && sched.endMs === 9000, "buildSchedule() change offsets");
+    console.assert(buildSchedule(changes, 2).entries[0].editAt === 2500, "buildSchedule() scales change offsets");
+    console.assert(messageState(changes[0], e1, 4900) === null && messageState(changes[0], e1, 5000) === "edited" && messageState(changes[1], e2, 5000) === "unsent" && messageState(changes[2], e3, 6500) === "failed", "messageState() at its offset");
+    const both = { ...changes[0], ...afterPatch(changes[0], "unsent", true) }, undone = { ...both, ...afterPatch(both, "edited", false) };
+    console.assert(both.edited_text === "hey!" && both.unsent && undone.unsent && undone.edited_text === undefined && undone.edit_delay_s === undefined, "afterPatch() toggles one event");
+    // frame dedupe: moments whose markup differs must key differently (frameKey lists every time-driven value)
+    setTimeout(() => {
+      const el = document.createElement("div"), root = createRoot(el);
+      const anim: Message[] = [{ id: "k1", speaker: "RECEIVER", text: "hey", typing_s: 1, enter: "pop" }, { id: "k2", speaker: "SENDER", text: "what", camera: "shake", tapback: "love", tapback_delay_s: 0.5 }];
+      const keyAt = (ms: number) => {
+        flushSync(() => root.render(<FakeTextPreview exportMode contactName="Anna" timeLine="Today" messages={anim} settings={DEFAULT_SETTINGS} durationMs={8000} timeOverrideMs={ms} />));
+        return { key: el.querySelector("[data-fk]")?.getAttribute("data-fk") ?? "", html: el.innerHTML.replace(/ data-fk="[^"]*"/g, "") };
+      };
+      const seen = new Map<string, string>(); let clashes = 0;
+      for (let ms = 0; ms <= 6000; ms += 100) { const f = keyAt(ms); if ((seen.get(f.key) ?? f.html) !== f.html) clashes++; seen.set(f.key, f.html); }
+      const popping = keyAt(1050).key !== keyAt(1150).key;
+      root.unmount();
+      console.assert(popping && clashes === 0, "frameKey covers every time-driven value");
+    });
   }
+  if (typeof window !== "undefined" && new URLSearchParams(window.location.search).has("headless")) return <HeadlessRenderer />;
   return (
     <>
       <FakeTextBuilder />
@@ -9,6 +9,8 @@ declare module '@ffmpeg/ffmpeg' {
     writeFile(path: string, data: Uint8Array | string): Promise<void>;
     readFile(path: string): Promise<Uint8Array>;
     exec(args: string[]): Promise<void>;
+    on(event: 'progress', callback: (e: { progress: number; time: number }) => void): void;
+    terminate(): void;
   }
 }
 